@@ -2,9 +2,12 @@ module paymaster::payment_automation {
     use std::signer;
     use std::vector;
     use std::error;
+    use std::option::{Self, Option};
+    use std::string::String;
     use aptos_framework::account;
     use aptos_framework::coin::{Self, Coin};
     use aptos_framework::timestamp;
+    use aptos_std::simple_map::{Self, SimpleMap};
     use aptos_std::table::{Self, Table};
     use aptos_std::event::{Self, EventHandle};
     
@@ -14,6 +17,13 @@ module paymaster::payment_automation {
     const E_INSUFFICIENT_FUNDS: u64 = 3;
     const E_INVALID_SCHEDULE: u64 = 4;
     const E_INVALID_RECIPIENT: u64 = 5;
+    const E_DELEGATION_EXPIRED: u64 = 6;
+    const E_SPENDING_CAP_EXCEEDED: u64 = 7;
+
+    /// Catch-up policies of schedule-anchored payments
+    const CATCH_UP_PAY_ALL: u8 = 1; // Pay every missed period, one per execution
+    const CATCH_UP_PAY_ONCE: u8 = 2; // Pay once for all missed periods
+    const CATCH_UP_SKIP: u8 = 3; // Pay the period now due, nothing for earlier missed ones
 
     /// Represents a scheduled payment
     struct ScheduledPayment<phantom CoinType> has store, drop {
@@ -34,6 +44,60 @@ module paymaster::payment_automation {
         payment_cancelled_events: EventHandle<PaymentCancelledEvent>,
     }
 
+    /// How a finite payment ends; none means no limit
+    struct PaymentLimit has store, drop {
+        remaining_executions: Option<u64>,
+        end_time: Option<u64>,
+    }
+
+    /// Limits of finite and one-time payments, kept apart from
+    /// PaymentSchedules so that it keeps its published layout
+    struct PaymentLimits<phantom CoinType> has key {
+        limits: Table<u64, PaymentLimit>,
+    }
+
+    /// Calendar rules of calendar payments. The rule is interpreted off chain
+    /// by the schedule planner, which supplies each next due time within the
+    /// period the payer signed for the rule.
+    struct PaymentCalendars<phantom CoinType> has key {
+        rules: Table<u64, String>,
+        periods: Table<u64, CalendarPeriod>,
+    }
+
+    /// The shortest and longest time between two due times of a calendar rule
+    struct CalendarPeriod has store, drop {
+        min_seconds: u64,
+        max_seconds: u64,
+    }
+
+    /// Payments anchored to their schedule, whose next payment time steps
+    /// from the previous one rather than from the execution time, with how
+    /// each one catches up on missed periods
+    struct PaymentCatchUps<phantom CoinType> has key {
+        policies: Table<u64, u8>,
+        payment_skipped_events: EventHandle<PaymentSkippedEvent>,
+    }
+
+    /// What an authorized executor may pay on a payer's behalf
+    struct Delegation has store, drop {
+        max_per_payment: u64,
+        max_per_period: u64,
+        period_seconds: u64,
+        expires_at: u64, // 0 for no expiry
+        period_start: u64,
+        spent_in_period: u64,
+    }
+
+    /// Executors a payer has authorized, and the funds they pay from. A
+    /// payer's coins can only leave its account with its signature, so
+    /// delegated payments are made from funds set aside here.
+    struct Delegations<phantom CoinType> has key {
+        executors: SimpleMap<address, Delegation>,
+        funds: Coin<CoinType>,
+        delegation_granted_events: EventHandle<DelegationGrantedEvent>,
+        delegation_revoked_events: EventHandle<DelegationRevokedEvent>,
+    }
+
     /// Events
     struct PaymentCreatedEvent has drop, store {
         payment_id: u64,
@@ -56,6 +120,53 @@ module paymaster::payment_automation {
         cancelled_at: u64,
     }
 
+    /// Emitted with the resulting state whenever a payment is edited in place
+    struct PaymentUpdatedEvent has drop, store {
+        payment_id: u64,
+        recipient: address,
+        amount: u64,
+        interval_seconds: u64,
+        next_payment_time: u64,
+        is_active: bool,
+        updated_at: u64,
+    }
+
+    /// Emitted when missed periods are skipped without paying them, alongside
+    /// the execution that paid the period now due
+    struct PaymentSkippedEvent has drop, store {
+        payment_id: u64,
+        missed_from: u64, // The first missed payment time
+        next_payment_time: u64,
+        skipped_at: u64,
+    }
+
+    struct DelegationGrantedEvent has drop, store {
+        executor: address,
+        max_per_payment: u64,
+        max_per_period: u64,
+        period_seconds: u64,
+        expires_at: u64,
+    }
+
+    struct DelegationRevokedEvent has drop, store {
+        executor: address,
+        revoked_at: u64,
+    }
+
+    /// Update events live in their own resource so that PaymentSchedules
+    /// keeps its published layout
+    struct PaymentUpdateEvents<phantom CoinType> has key {
+        payment_updated_events: EventHandle<PaymentUpdatedEvent>,
+    }
+
+    /// Cancelled payments, which cannot be resumed, and when paused payments
+    /// were paused, kept apart from PaymentSchedules so that it keeps its
+    /// published layout
+    struct PaymentPauses<phantom CoinType> has key {
+        cancelled: Table<u64, bool>,
+        paused_at: Table<u64, u64>,
+    }
+
     /// Initialize payment schedules for a user
     public entry fun initialize_payment_schedules<CoinType>(account: &signer) {
         let account_addr = signer::address_of(account);
@@ -79,10 +190,96 @@ module paymaster::payment_automation {
         interval_seconds: u64,
         start_time: u64
     ) acquires PaymentSchedules {
+        assert!(interval_seconds > 0, error::invalid_argument(E_INVALID_SCHEDULE));
+        create_payment<CoinType>(account, recipient, amount, interval_seconds, start_time);
+    }
+
+    /// Create a scheduled payment that ends after max_executions payments, or
+    /// once its next payment would fall after end_time (0 for no limit)
+    public entry fun create_finite_scheduled_payment<CoinType>(
+        account: &signer,
+        recipient: address,
+        amount: u64,
+        interval_seconds: u64,
+        start_time: u64,
+        max_executions: u64,
+        end_time: u64
+    ) acquires PaymentSchedules, PaymentLimits {
+        assert!(interval_seconds > 0, error::invalid_argument(E_INVALID_SCHEDULE));
+        assert!(max_executions > 0 || end_time > 0, error::invalid_argument(E_INVALID_SCHEDULE));
+
+        let first_payment_time = if (start_time == 0) {
+            timestamp::now_seconds()
+        } else {
+            start_time
+        };
+        assert!(end_time == 0 || end_time >= first_payment_time, error::invalid_argument(E_INVALID_SCHEDULE));
+
+        let payment_id = create_payment<CoinType>(account, recipient, amount, interval_seconds, start_time);
+        add_limit<CoinType>(
+            account,
+            payment_id,
+            if (max_executions > 0) option::some(max_executions) else option::none(),
+            if (end_time > 0) option::some(end_time) else option::none()
+        );
+    }
+
+    /// Create a payment that executes once at execute_at (0 for now)
+    public entry fun create_one_time_payment<CoinType>(
+        account: &signer,
+        recipient: address,
+        amount: u64,
+        execute_at: u64
+    ) acquires PaymentSchedules, PaymentLimits {
+        let payment_id = create_payment<CoinType>(account, recipient, amount, 0, execute_at);
+        add_limit<CoinType>(account, payment_id, option::some(1), option::none());
+    }
+
+    /// Create a payment that follows a calendar rule (e.g. monthly on the last
+    /// business day). first_payment_time is the rule's first due time, and
+    /// every next due time must follow the previous one by between
+    /// min_period_seconds and max_period_seconds.
+    public entry fun create_calendar_payment<CoinType>(
+        account: &signer,
+        recipient: address,
+        amount: u64,
+        first_payment_time: u64,
+        rule: String,
+        min_period_seconds: u64,
+        max_period_seconds: u64
+    ) acquires PaymentSchedules, PaymentCalendars {
+        assert!(first_payment_time > timestamp::now_seconds(), error::invalid_argument(E_INVALID_SCHEDULE));
+        assert!(
+            min_period_seconds > 0 && min_period_seconds <= max_period_seconds,
+            error::invalid_argument(E_INVALID_SCHEDULE)
+        );
+
+        let account_addr = signer::address_of(account);
+        let payment_id = create_payment<CoinType>(account, recipient, amount, 0, first_payment_time);
+
+        if (!exists<PaymentCalendars<CoinType>>(account_addr)) {
+            move_to(account, PaymentCalendars<CoinType> { rules: table::new(), periods: table::new() });
+        };
+        let calendars = borrow_global_mut<PaymentCalendars<CoinType>>(account_addr);
+        table::add(&mut calendars.rules, payment_id, rule);
+        table::add(
+            &mut calendars.periods,
+            payment_id,
+            CalendarPeriod { min_seconds: min_period_seconds, max_seconds: max_period_seconds }
+        );
+    }
+
+    /// Store a new payment and return its ID
+    fun create_payment<CoinType>(
+        account: &signer,
+        recipient: address,
+        amount: u64,
+        interval_seconds: u64,
+        start_time: u64
+    ): u64 acquires PaymentSchedules {
         let account_addr = signer::address_of(account);
         
         // Validate parameters
-        assert!(interval_seconds > 0, error::invalid_argument(E_INVALID_SCHEDULE));
         assert!(amount > 0, error::invalid_argument(E_INVALID_SCHEDULE));
         assert!(recipient != @0x0, error::invalid_argument(E_INVALID_RECIPIENT));
         
@@ -126,13 +323,174 @@ module paymaster::payment_automation {
                 next_payment_time,
             }
         );
+
+        payment_id
+    }
+
+    /// Record how a finite payment ends
+    fun add_limit<CoinType>(
+        account: &signer,
+        payment_id: u64,
+        remaining_executions: Option<u64>,
+        end_time: Option<u64>
+    ) acquires PaymentLimits {
+        let account_addr = signer::address_of(account);
+
+        if (!exists<PaymentLimits<CoinType>>(account_addr)) {
+            move_to(account, PaymentLimits<CoinType> { limits: table::new() });
+        };
+
+        table::add(
+            &mut borrow_global_mut<PaymentLimits<CoinType>>(account_addr).limits,
+            payment_id,
+            PaymentLimit { remaining_executions, end_time }
+        );
+    }
+
+    /// Check if a finite payment has no executions left at next_payment_time
+    fun is_finished<CoinType>(
+        payer: address,
+        payment_id: u64,
+        next_payment_time: u64
+    ): bool acquires PaymentLimits {
+        if (!exists<PaymentLimits<CoinType>>(payer)) {
+            return false
+        };
+
+        let limits = &borrow_global<PaymentLimits<CoinType>>(payer).limits;
+        if (!table::contains(limits, payment_id)) {
+            return false
+        };
+
+        let limit = table::borrow(limits, payment_id);
+        (option::is_some(&limit.remaining_executions) && *option::borrow(&limit.remaining_executions) == 0) ||
+            (option::is_some(&limit.end_time) && next_payment_time > *option::borrow(&limit.end_time))
+    }
+
+    /// Check if a payment follows a calendar rule
+    fun has_calendar<CoinType>(payer: address, payment_id: u64): bool acquires PaymentCalendars {
+        exists<PaymentCalendars<CoinType>>(payer) &&
+            table::contains(&borrow_global<PaymentCalendars<CoinType>>(payer).rules, payment_id)
+    }
+
+    /// Get the shortest and longest period of a calendar payment's rule;
+    /// (0, 0) for interval payments
+    fun calendar_period<CoinType>(payer: address, payment_id: u64): (u64, u64) acquires PaymentCalendars {
+        if (!has_calendar<CoinType>(payer, payment_id)) {
+            return (0, 0)
+        };
+
+        let period = table::borrow(&borrow_global<PaymentCalendars<CoinType>>(payer).periods, payment_id);
+        (period.min_seconds, period.max_seconds)
     }
 
-    /// Cancel a scheduled payment
+    /// Get the catch-up policy of an anchored payment; none while the payment
+    /// moves on from each execution
+    fun catch_up_policy<CoinType>(payer: address, payment_id: u64): Option<u8> acquires PaymentCatchUps {
+        if (!exists<PaymentCatchUps<CoinType>>(payer)) {
+            return option::none()
+        };
+
+        let policies = &borrow_global<PaymentCatchUps<CoinType>>(payer).policies;
+        if (!table::contains(policies, payment_id)) {
+            return option::none()
+        };
+
+        option::some(*table::borrow(policies, payment_id))
+    }
+
+    /// Record that the missed periods of a payment were skipped
+    fun emit_skipped<CoinType>(
+        payer: address,
+        payment_id: u64,
+        missed_from: u64,
+        next_payment_time: u64
+    ) acquires PaymentCatchUps {
+        event::emit_event(
+            &mut borrow_global_mut<PaymentCatchUps<CoinType>>(payer).payment_skipped_events,
+            PaymentSkippedEvent {
+                payment_id,
+                missed_from,
+                next_payment_time,
+                skipped_at: timestamp::now_seconds(),
+            }
+        );
+    }
+
+    /// Check that an executor may pay amount on a payer's behalf and pay it
+    /// from the payer's delegated funds. An amount of 0 only checks that the
+    /// delegation is in force.
+    fun pay_delegated<CoinType>(
+        executor: address,
+        payer: address,
+        recipient: address,
+        amount: u64
+    ) acquires Delegations {
+        assert!(exists<Delegations<CoinType>>(payer), error::permission_denied(E_NOT_AUTHORIZED));
+        let delegations = borrow_global_mut<Delegations<CoinType>>(payer);
+        assert!(simple_map::contains_key(&delegations.executors, &executor), error::permission_denied(E_NOT_AUTHORIZED));
+
+        let delegation = simple_map::borrow_mut(&mut delegations.executors, &executor);
+        let current_time = timestamp::now_seconds();
+        assert!(
+            delegation.expires_at == 0 || current_time < delegation.expires_at,
+            error::permission_denied(E_DELEGATION_EXPIRED)
+        );
+
+        // Periods run back to back from when the delegation was granted
+        if (current_time >= delegation.period_start + delegation.period_seconds) {
+            let elapsed = current_time - delegation.period_start;
+            delegation.period_start = delegation.period_start +
+                elapsed / delegation.period_seconds * delegation.period_seconds;
+            delegation.spent_in_period = 0;
+        };
+
+        assert!(amount <= delegation.max_per_payment, error::resource_exhausted(E_SPENDING_CAP_EXCEEDED));
+        assert!(
+            delegation.spent_in_period + amount <= delegation.max_per_period,
+            error::resource_exhausted(E_SPENDING_CAP_EXCEEDED)
+        );
+        assert!(coin::value(&delegations.funds) >= amount, error::invalid_state(E_INSUFFICIENT_FUNDS));
+
+        if (amount > 0) {
+            delegation.spent_in_period = delegation.spent_in_period + amount;
+            coin::deposit(recipient, coin::extract(&mut delegations.funds, amount));
+        };
+    }
+
+    /// Count an execution against a finite payment's remaining executions
+    fun record_execution<CoinType>(payer: address, payment_id: u64) acquires PaymentLimits {
+        if (!exists<PaymentLimits<CoinType>>(payer)) {
+            return
+        };
+
+        let limits = &mut borrow_global_mut<PaymentLimits<CoinType>>(payer).limits;
+        if (!table::contains(limits, payment_id)) {
+            return
+        };
+
+        let limit = table::borrow_mut(limits, payment_id);
+        if (option::is_some(&limit.remaining_executions)) {
+            let remaining = option::borrow_mut(&mut limit.remaining_executions);
+            *remaining = *remaining - 1;
+        };
+    }
+
+    /// Get the pause records of an account, creating them on first use
+    fun pauses_of<CoinType>(account: &signer): &mut PaymentPauses<CoinType> acquires PaymentPauses {
+        let account_addr = signer::address_of(account);
+        if (!exists<PaymentPauses<CoinType>>(account_addr)) {
+            move_to(account, PaymentPauses<CoinType> { cancelled: table::new(), paused_at: table::new() });
+        };
+        borrow_global_mut<PaymentPauses<CoinType>>(account_addr)
+    }
+
+    /// Cancel a scheduled payment. Unlike a paused payment, a cancelled one
+    /// cannot be resumed.
     public entry fun cancel_scheduled_payment<CoinType>(
         account: &signer,
         payment_id: u64
-    ) acquires PaymentSchedules {
+    ) acquires PaymentSchedules, PaymentPauses {
         let account_addr = signer::address_of(account);
         
         assert!(exists<PaymentSchedules<CoinType>>(account_addr), error::not_found(E_PAYMENT_NOT_FOUND));
@@ -142,6 +500,12 @@ module paymaster::payment_automation {
         
         let payment = table::borrow_mut(&mut schedules.payments, payment_id);
         payment.is_active = false;
+
+        let pauses = pauses_of<CoinType>(account);
+        table::upsert(&mut pauses.cancelled, payment_id, true);
+        if (table::contains(&pauses.paused_at, payment_id)) {
+            table::remove(&mut pauses.paused_at, payment_id);
+        };
         
         // Emit event
         event::emit_event(
@@ -153,13 +517,285 @@ module paymaster::payment_automation {
         );
     }
 
-    /// Execute a pending payment (can be called by anyone)
+    /// Update a scheduled payment in place; fields passed as none are kept.
+    /// Setting is_active to false pauses the payment and setting it to true
+    /// resumes it, keeping its payment id and event history. A resumed
+    /// payment's next payment time moves later by the time it was paused, so
+    /// periods that passed while paused are not owed. Cancelled payments
+    /// cannot be resumed.
+    public entry fun update_scheduled_payment<CoinType>(
+        account: &signer,
+        payment_id: u64,
+        new_recipient: Option<address>,
+        new_amount: Option<u64>,
+        new_interval_seconds: Option<u64>,
+        new_is_active: Option<bool>
+    ) acquires PaymentSchedules, PaymentUpdateEvents, PaymentLimits, PaymentPauses {
+        let account_addr = signer::address_of(account);
+
+        // At least one field must change
+        assert!(
+            option::is_some(&new_recipient) || option::is_some(&new_amount) ||
+                option::is_some(&new_interval_seconds) || option::is_some(&new_is_active),
+            error::invalid_argument(E_INVALID_SCHEDULE)
+        );
+
+        assert!(exists<PaymentSchedules<CoinType>>(account_addr), error::not_found(E_PAYMENT_NOT_FOUND));
+
+        let schedules = borrow_global_mut<PaymentSchedules<CoinType>>(account_addr);
+        assert!(table::contains(&schedules.payments, payment_id), error::not_found(E_PAYMENT_NOT_FOUND));
+
+        let payment = table::borrow_mut(&mut schedules.payments, payment_id);
+
+        // Validate and apply the changes
+        if (option::is_some(&new_recipient)) {
+            let recipient = option::extract(&mut new_recipient);
+            assert!(recipient != @0x0, error::invalid_argument(E_INVALID_RECIPIENT));
+            payment.recipient = recipient;
+        };
+        if (option::is_some(&new_amount)) {
+            let amount = option::extract(&mut new_amount);
+            assert!(amount > 0, error::invalid_argument(E_INVALID_SCHEDULE));
+            payment.amount = amount;
+        };
+        if (option::is_some(&new_interval_seconds)) {
+            let interval_seconds = option::extract(&mut new_interval_seconds);
+            assert!(interval_seconds > 0, error::invalid_argument(E_INVALID_SCHEDULE));
+            payment.interval_seconds = interval_seconds;
+        };
+        if (option::is_some(&new_is_active)) {
+            let is_active = option::extract(&mut new_is_active);
+            let pauses = pauses_of<CoinType>(account);
+            let current_time = timestamp::now_seconds();
+
+            if (is_active && !payment.is_active) {
+                assert!(!table::contains(&pauses.cancelled, payment_id), error::invalid_state(E_PAYMENT_NOT_FOUND));
+
+                // Pick up where the payment was paused
+                if (table::contains(&pauses.paused_at, payment_id)) {
+                    let paused_at = table::remove(&mut pauses.paused_at, payment_id);
+                    payment.next_payment_time = payment.next_payment_time + (current_time - paused_at);
+                };
+
+                // A completed finite payment cannot be resumed
+                assert!(
+                    !is_finished<CoinType>(account_addr, payment_id, payment.next_payment_time),
+                    error::invalid_state(E_INVALID_SCHEDULE)
+                );
+            } else if (!is_active && payment.is_active) {
+                table::upsert(&mut pauses.paused_at, payment_id, current_time);
+            };
+            payment.is_active = is_active;
+        };
+
+        // Created on the first update
+        if (!exists<PaymentUpdateEvents<CoinType>>(account_addr)) {
+            move_to(account, PaymentUpdateEvents<CoinType> {
+                payment_updated_events: account::new_event_handle<PaymentUpdatedEvent>(account),
+            });
+        };
+
+        // Emit event
+        event::emit_event(
+            &mut borrow_global_mut<PaymentUpdateEvents<CoinType>>(account_addr).payment_updated_events,
+            PaymentUpdatedEvent {
+                payment_id,
+                recipient: payment.recipient,
+                amount: payment.amount,
+                interval_seconds: payment.interval_seconds,
+                next_payment_time: payment.next_payment_time,
+                is_active: payment.is_active,
+                updated_at: timestamp::now_seconds(),
+            }
+        );
+    }
+
+    /// Authorize an executor to execute this account's payments, paying at
+    /// most max_per_payment per payment and max_per_period in every
+    /// period_seconds, until expires_at (0 for no expiry). Granting again
+    /// replaces the executor's caps and starts a new period.
+    public entry fun grant_executor<CoinType>(
+        account: &signer,
+        executor: address,
+        max_per_payment: u64,
+        max_per_period: u64,
+        period_seconds: u64,
+        expires_at: u64
+    ) acquires Delegations {
+        let account_addr = signer::address_of(account);
+        let current_time = timestamp::now_seconds();
+        assert!(executor != account_addr && executor != @0x0, error::invalid_argument(E_INVALID_RECIPIENT));
+        assert!(max_per_payment > 0 && max_per_period >= max_per_payment, error::invalid_argument(E_INVALID_SCHEDULE));
+        assert!(period_seconds > 0, error::invalid_argument(E_INVALID_SCHEDULE));
+        assert!(expires_at == 0 || expires_at > current_time, error::invalid_argument(E_INVALID_SCHEDULE));
+
+        if (!exists<Delegations<CoinType>>(account_addr)) {
+            move_to(account, Delegations<CoinType> {
+                executors: simple_map::create(),
+                funds: coin::zero<CoinType>(),
+                delegation_granted_events: account::new_event_handle<DelegationGrantedEvent>(account),
+                delegation_revoked_events: account::new_event_handle<DelegationRevokedEvent>(account),
+            });
+        };
+
+        let delegations = borrow_global_mut<Delegations<CoinType>>(account_addr);
+        let (_, _) = simple_map::upsert(&mut delegations.executors, executor, Delegation {
+            max_per_payment,
+            max_per_period,
+            period_seconds,
+            expires_at,
+            period_start: current_time,
+            spent_in_period: 0,
+        });
+
+        event::emit_event(
+            &mut delegations.delegation_granted_events,
+            DelegationGrantedEvent {
+                executor,
+                max_per_payment,
+                max_per_period,
+                period_seconds,
+                expires_at,
+            }
+        );
+    }
+
+    /// Withdraw an executor's authorization
+    public entry fun revoke_executor<CoinType>(
+        account: &signer,
+        executor: address
+    ) acquires Delegations {
+        let account_addr = signer::address_of(account);
+        assert!(exists<Delegations<CoinType>>(account_addr), error::not_found(E_NOT_AUTHORIZED));
+
+        let delegations = borrow_global_mut<Delegations<CoinType>>(account_addr);
+        assert!(simple_map::contains_key(&delegations.executors, &executor), error::not_found(E_NOT_AUTHORIZED));
+        let (_, _) = simple_map::remove(&mut delegations.executors, &executor);
+
+        event::emit_event(
+            &mut delegations.delegation_revoked_events,
+            DelegationRevokedEvent {
+                executor,
+                revoked_at: timestamp::now_seconds(),
+            }
+        );
+    }
+
+    /// Set funds aside for authorized executors to pay from
+    public entry fun deposit_delegated_funds<CoinType>(
+        account: &signer,
+        amount: u64
+    ) acquires Delegations {
+        let account_addr = signer::address_of(account);
+        assert!(exists<Delegations<CoinType>>(account_addr), error::not_found(E_NOT_AUTHORIZED));
+        assert!(amount > 0, error::invalid_argument(E_INSUFFICIENT_FUNDS));
+
+        let funds = coin::withdraw<CoinType>(account, amount);
+        coin::merge(&mut borrow_global_mut<Delegations<CoinType>>(account_addr).funds, funds);
+    }
+
+    /// Take back funds set aside for authorized executors
+    public entry fun withdraw_delegated_funds<CoinType>(
+        account: &signer,
+        amount: u64
+    ) acquires Delegations {
+        let account_addr = signer::address_of(account);
+        assert!(exists<Delegations<CoinType>>(account_addr), error::not_found(E_NOT_AUTHORIZED));
+
+        let delegations = borrow_global_mut<Delegations<CoinType>>(account_addr);
+        assert!(coin::value(&delegations.funds) >= amount, error::invalid_state(E_INSUFFICIENT_FUNDS));
+        coin::deposit(account_addr, coin::extract(&mut delegations.funds, amount));
+    }
+
+    /// Anchor a payment to its schedule and set how it catches up on missed
+    /// periods: CATCH_UP_PAY_ALL, CATCH_UP_PAY_ONCE or CATCH_UP_SKIP
+    public entry fun set_catch_up_policy<CoinType>(
+        account: &signer,
+        payment_id: u64,
+        policy: u8
+    ) acquires PaymentSchedules, PaymentCatchUps {
+        assert!(policy >= CATCH_UP_PAY_ALL && policy <= CATCH_UP_SKIP, error::invalid_argument(E_INVALID_SCHEDULE));
+
+        let account_addr = signer::address_of(account);
+        assert!(exists<PaymentSchedules<CoinType>>(account_addr), error::not_found(E_PAYMENT_NOT_FOUND));
+        let schedules = borrow_global<PaymentSchedules<CoinType>>(account_addr);
+        assert!(table::contains(&schedules.payments, payment_id), error::not_found(E_PAYMENT_NOT_FOUND));
+
+        if (!exists<PaymentCatchUps<CoinType>>(account_addr)) {
+            move_to(account, PaymentCatchUps<CoinType> {
+                policies: table::new(),
+                payment_skipped_events: account::new_event_handle<PaymentSkippedEvent>(account),
+            });
+        };
+        table::upsert(&mut borrow_global_mut<PaymentCatchUps<CoinType>>(account_addr).policies, payment_id, policy);
+    }
+
+    /// Execute a pending payment (by the payer or an authorized executor)
     public entry fun execute_payment<CoinType>(
         executor: &signer, 
         payer: address,
         payment_id: u64
-    ) acquires PaymentSchedules {
+    ) acquires PaymentSchedules, PaymentLimits, PaymentCalendars, PaymentCatchUps, Delegations {
+        // Calendar payments need their next due time from the planner
+        assert!(!has_calendar<CoinType>(payer, payment_id), error::invalid_argument(E_INVALID_SCHEDULE));
+        execute<CoinType>(executor, payer, payment_id, option::none());
+    }
+
+    /// Execute a due calendar payment. next_payment_time is the next due time
+    /// of the payment's rule and must be in the future, unless the payment
+    /// pays every missed period. It must be at least the rule's shortest
+    /// period after the paid due time, and at most its longest period after
+    /// now, or after the paid due time when every missed period is paid.
+    public entry fun execute_calendar_payment<CoinType>(
+        executor: &signer,
+        payer: address,
+        payment_id: u64,
+        next_payment_time: u64
+    ) acquires PaymentSchedules, PaymentLimits, PaymentCalendars, PaymentCatchUps, Delegations {
+        assert!(has_calendar<CoinType>(payer, payment_id), error::invalid_argument(E_INVALID_SCHEDULE));
+        execute<CoinType>(executor, payer, payment_id, option::some(next_payment_time));
+    }
+
+    /// Pay the period now due of a calendar payment that skips missed
+    /// periods, and skip the earlier ones. next_payment_time is the rule's
+    /// first due time after now, bounded as for execute_calendar_payment.
+    public entry fun skip_calendar_payment<CoinType>(
+        executor: &signer,
+        payer: address,
+        payment_id: u64,
+        next_payment_time: u64
+    ) acquires PaymentSchedules, PaymentLimits, PaymentCalendars, PaymentCatchUps, Delegations {
+        assert!(has_calendar<CoinType>(payer, payment_id), error::invalid_argument(E_INVALID_SCHEDULE));
+        assert!(
+            catch_up_policy<CoinType>(payer, payment_id) == option::some(CATCH_UP_SKIP),
+            error::invalid_state(E_INVALID_SCHEDULE)
+        );
+
+        assert!(exists<PaymentSchedules<CoinType>>(payer), error::not_found(E_PAYMENT_NOT_FOUND));
+        let schedules = borrow_global<PaymentSchedules<CoinType>>(payer);
+        assert!(table::contains(&schedules.payments, payment_id), error::not_found(E_PAYMENT_NOT_FOUND));
+        let missed_from = table::borrow(&schedules.payments, payment_id).next_payment_time;
+
+        // Periods are only missed once a whole period has passed
+        let (min_period, _) = calendar_period<CoinType>(payer, payment_id);
+        assert!(timestamp::now_seconds() >= missed_from + min_period, error::invalid_state(E_INVALID_SCHEDULE));
+
+        execute<CoinType>(executor, payer, payment_id, option::some(next_payment_time));
+        emit_skipped<CoinType>(payer, payment_id, missed_from, next_payment_time);
+    }
+
+    /// Pay a due payment and move it to its next due time. Calendar payments
+    /// are given it; anchored interval payments step from their schedule and
+    /// catch up by their policy; other payments move on from now.
+    fun execute<CoinType>(
+        executor: &signer,
+        payer: address,
+        payment_id: u64,
+        next_payment_time: Option<u64>
+    ) acquires PaymentSchedules, PaymentLimits, PaymentCalendars, PaymentCatchUps, Delegations {
         assert!(exists<PaymentSchedules<CoinType>>(payer), error::not_found(E_PAYMENT_NOT_FOUND));
+        let policy = catch_up_policy<CoinType>(payer, payment_id);
+        let (min_period, max_period) = calendar_period<CoinType>(payer, payment_id);
         
         let schedules = borrow_global_mut<PaymentSchedules<CoinType>>(payer);
         assert!(table::contains(&schedules.payments, payment_id), error::not_found(E_PAYMENT_NOT_FOUND));
@@ -170,6 +806,16 @@ module paymaster::payment_automation {
         // Check if payment is due
         let current_time = timestamp::now_seconds();
         assert!(current_time >= payment.next_payment_time, error::invalid_state(E_INVALID_SCHEDULE));
+
+        let scheduled_time = payment.next_payment_time;
+        let interval = payment.interval_seconds;
+        let anchored = option::is_some(&policy) && option::is_none(&next_payment_time) && interval > 0;
+
+        // A period is missed once the period after it is due as well. Skipping
+        // pays the latest due period and none before it.
+        let skipped = anchored &&
+            *option::borrow(&policy) == CATCH_UP_SKIP &&
+            scheduled_time + interval <= current_time;
         
         // Transfer funds
         let executor_addr = signer::address_of(executor);
@@ -177,13 +823,39 @@ module paymaster::payment_automation {
             // Direct payment from payer
             coin::transfer<CoinType>(executor, payment.recipient, payment.amount);
         } else {
-            // For future: implement agent execution logic
-            // For now, only the payer can execute their payments
-            abort error::permission_denied(E_NOT_AUTHORIZED);
+            // Authorized executors pay from the payer's delegated funds
+            pay_delegated<CoinType>(executor_addr, payer, payment.recipient, payment.amount);
         };
         
         // Update next payment time
-        payment.next_payment_time = current_time + payment.interval_seconds;
+        payment.next_payment_time = if (option::is_some(&next_payment_time)) {
+            let next = *option::borrow(&next_payment_time);
+            let pay_all = policy == option::some(CATCH_UP_PAY_ALL);
+            // Only a payment that pays every missed period may stay due
+            assert!(next > current_time || pay_all, error::invalid_argument(E_INVALID_SCHEDULE));
+            // Within one period of the rule, so the next due time can be
+            // neither brought forward nor held back
+            let latest = (if (pay_all) scheduled_time else current_time) + max_period;
+            assert!(
+                next >= scheduled_time + min_period && next <= latest,
+                error::invalid_argument(E_INVALID_SCHEDULE)
+            );
+            next
+        } else if (!anchored) {
+            current_time + interval
+        } else if (*option::borrow(&policy) == CATCH_UP_PAY_ALL) {
+            // Stays due until every missed period is paid
+            scheduled_time + interval
+        } else {
+            // The first period after now
+            scheduled_time + ((current_time - scheduled_time) / interval + 1) * interval
+        };
+
+        // Finite payments become inactive after their last execution
+        record_execution<CoinType>(payer, payment_id);
+        if (is_finished<CoinType>(payer, payment_id, payment.next_payment_time)) {
+            payment.is_active = false;
+        };
         
         // Emit event
         event::emit_event(
@@ -196,6 +868,10 @@ module paymaster::payment_automation {
                 next_payment_time: payment.next_payment_time,
             }
         );
+
+        if (skipped) {
+            emit_skipped<CoinType>(payer, payment_id, scheduled_time, payment.next_payment_time);
+        };
     }
 
     /// Get details of a scheduled payment (view function)
@@ -220,6 +896,91 @@ module paymaster::payment_automation {
         )
     }
 
+    /// Get how a finite payment ends as (remaining executions, end time);
+    /// none means no limit (view function)
+    #[view]
+    public fun get_payment_limits<CoinType>(
+        payer: address,
+        payment_id: u64
+    ): (Option<u64>, Option<u64>) acquires PaymentLimits {
+        if (!exists<PaymentLimits<CoinType>>(payer)) {
+            return (option::none(), option::none())
+        };
+
+        let limits = &borrow_global<PaymentLimits<CoinType>>(payer).limits;
+        if (!table::contains(limits, payment_id)) {
+            return (option::none(), option::none())
+        };
+
+        let limit = table::borrow(limits, payment_id);
+        (limit.remaining_executions, limit.end_time)
+    }
+
+    /// Get the calendar rule of a payment; none for interval payments (view function)
+    #[view]
+    public fun get_payment_calendar<CoinType>(
+        payer: address,
+        payment_id: u64
+    ): Option<String> acquires PaymentCalendars {
+        if (!has_calendar<CoinType>(payer, payment_id)) {
+            return option::none()
+        };
+
+        option::some(*table::borrow(&borrow_global<PaymentCalendars<CoinType>>(payer).rules, payment_id))
+    }
+
+    /// Get the catch-up policy of a payment; none while its next payment time
+    /// moves on from each execution (view function)
+    #[view]
+    public fun get_payment_catch_up_policy<CoinType>(
+        payer: address,
+        payment_id: u64
+    ): Option<u8> acquires PaymentCatchUps {
+        catch_up_policy<CoinType>(payer, payment_id)
+    }
+
+    /// Get the executors a payer has authorized (view function)
+    #[view]
+    public fun get_executors<CoinType>(payer: address): vector<address> acquires Delegations {
+        if (!exists<Delegations<CoinType>>(payer)) {
+            return vector::empty()
+        };
+
+        simple_map::keys(&borrow_global<Delegations<CoinType>>(payer).executors)
+    }
+
+    /// Get an executor's caps and spending: (max_per_payment, max_per_period,
+    /// period_seconds, expires_at, period_start, spent_in_period) (view function)
+    #[view]
+    public fun get_delegation<CoinType>(
+        payer: address,
+        executor: address
+    ): (u64, u64, u64, u64, u64, u64) acquires Delegations {
+        assert!(exists<Delegations<CoinType>>(payer), error::not_found(E_NOT_AUTHORIZED));
+        let executors = &borrow_global<Delegations<CoinType>>(payer).executors;
+        assert!(simple_map::contains_key(executors, &executor), error::not_found(E_NOT_AUTHORIZED));
+
+        let delegation = simple_map::borrow(executors, &executor);
+        (
+            delegation.max_per_payment,
+            delegation.max_per_period,
+            delegation.period_seconds,
+            delegation.expires_at,
+            delegation.period_start,
+            delegation.spent_in_period
+        )
+    }
+
+    /// Get the funds a payer has set aside for authorized executors (view function)
+    #[view]
+    public fun get_delegated_funds<CoinType>(payer: address): u64 acquires Delegations {
+        if (!exists<Delegations<CoinType>>(payer)) {
+            return 0
+        };
+
+        coin::value(&borrow_global<Delegations<CoinType>>(payer).funds)
+    }
+
     /// Check if a payment is due for execution
     #[view]
     public fun is_payment_due<CoinType>(
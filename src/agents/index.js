@@ -16,6 +16,7 @@ export class AptosWalletManager {
   constructor() {
     this.aptos = null;
     this.account = null;
+    this.signer = null;
     this.agent = null;
     this.tools = null;
   }
@@ -46,8 +47,8 @@ export class AptosWalletManager {
       });
 
       // Initialize the agent
-      const signer = new LocalSigner(this.account, network);
-      this.agent = new AgentRuntime(signer, this.aptos, {
+      this.signer = new LocalSigner(this.account, network);
+      this.agent = new AgentRuntime(this.signer, this.aptos, {
         OPENAI_API_KEY: process.env.OPENAI_API_KEY
       });
       
@@ -64,7 +65,7 @@ export class AptosWalletManager {
   /**
    * Get the balance of an Aptos account
    * @param {string} address - The account address (defaults to the initialized account)
-   * @returns {Promise<number|null>} - The account balance or null if there was an error
+   * @returns {Promise<string|null>} - The balance in APT, e.g. "10.5", or null if there was an error
    */
   async getBalance(address = null) {
     try {
@@ -87,11 +88,14 @@ export class AptosWalletManager {
       const accountResource = resources.find((r) => r.type === `0x1::coin::CoinStore<${coinType}>`);
       
       if (accountResource) {
-        const balance = BigInt(accountResource.data.coin.value) / BigInt(100000000); // Convert from octas to APT
-        return Number(balance);
+        // Convert from octas to APT, keeping the fractional part
+        const octas = BigInt(accountResource.data.coin.value);
+        const whole = octas / BigInt(100000000);
+        const fraction = (octas % BigInt(100000000)).toString().padStart(8, '0').replace(/0+$/, '');
+        return fraction ? `${whole}.${fraction}` : whole.toString();
       } else {
         console.log("Coin resource not found, account may have 0 balance");
-        return 0;
+        return "0";
       }
     } catch (error) {
       console.error('Failed to get account balance:', error);
@@ -110,6 +114,14 @@ export class AptosWalletManager {
     return this.account.accountAddress.toString();
   }
 
+  /**
+   * Get the move-agent-kit signer, e.g. to wrap in a MoveAgentKitSigner for PayMasterAgent
+   * @returns {LocalSigner|null} - The signer or null if not initialized
+   */
+  getSigner() {
+    return this.signer;
+  }
+
   /**
    * Transfer tokens to another address
    * @param {string} toAddress - The recipient address
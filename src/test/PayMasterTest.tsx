@@ -1,11 +1,16 @@
 import { useState, useEffect } from "react";
-import { PayMasterAgent, Network } from "../tools/paymaster/PayMasterAgent";
+import {
+  PayMasterAgent,
+  Network,
+  TransactionResult,
+} from "../tools/paymaster/PayMasterAgent";
 import {
   Account,
   Aptos,
   AptosConfig,
   Ed25519PrivateKey,
 } from "@aptos-labs/ts-sdk";
+import { AddressBook, AddressBookEntry } from "../tools/paymaster/AddressBook";
 import { AIYieldOptimizer, StrategyRecommendation } from "../tools/paymaster/AIYieldOptimizer";
 import { RiskAssessmentEngine, RiskAssessment } from "../tools/paymaster/RiskAssessmentEngine";
 import React from "react";
@@ -23,7 +28,7 @@ export default function PayMasterTestUI() {
   );
 
   // Transaction states
-  const [txnHash, setTxnHash] = useState<string>("");
+  const [txnResult, setTxnResult] = useState<TransactionResult | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>("");
 
@@ -32,6 +37,11 @@ export default function PayMasterTestUI() {
   const [paymentAmount, setPaymentAmount] = useState<string>("10");
   const [paymentInterval, setPaymentInterval] = useState<number>(86400); // 1 day in seconds
 
+  // Address book states
+  const [addressBook, setAddressBook] = useState<AddressBook | null>(null);
+  const [contacts, setContacts] = useState<AddressBookEntry[]>([]);
+  const [contactName, setContactName] = useState<string>("");
+
   // Yield strategy states
   const [riskPreference, setRiskPreference] = useState<number>(5);
   const [strategies, setStrategies] = useState<StrategyRecommendation[]>([]);
@@ -59,9 +69,16 @@ export default function PayMasterTestUI() {
         // Create agent instances
         const payMasterAgent = new PayMasterAgent(newAccount);
         const aiOptimizer = new AIYieldOptimizer(riskPreference);
-        const riskAssessmentEngine = new RiskAssessmentEngine();
+        // Payments and the liquidity forecast come from chain; positions and
+        // prices from the demo fixture
+        const riskAssessmentEngine = new RiskAssessmentEngine({}, payMasterAgent);
+
+        // Payments accept saved names in place of addresses
+        const book = new AddressBook(payMasterAgent);
+        payMasterAgent.setAddressBook(book);
 
         setAgent(payMasterAgent);
+        setAddressBook(book);
         setYieldOptimizer(aiOptimizer);
         setRiskEngine(riskAssessmentEngine);
 
@@ -86,9 +103,9 @@ export default function PayMasterTestUI() {
     setError("");
 
     try {
-      const hash = await agent.initializePaymentSchedules();
-      setTxnHash(hash);
-      console.log("Payment schedules initialized:", hash);
+      const result = await agent.initializePaymentSchedules();
+      setTxnResult(result);
+      console.log("Payment schedules initialized:", result);
     } catch (err: any) {
       setError(`Failed to initialize payment schedules: ${err.message}`);
       console.error("Initialization error:", err);
@@ -105,14 +122,14 @@ export default function PayMasterTestUI() {
     setError("");
 
     try {
-      const hash = await agent.createScheduledPayment(
+      const result = await agent.createScheduledPayment(
         recipientAddress,
-        paymentAmount,
+        `${paymentAmount} APT`, // The form takes APT, not octas
         paymentInterval,
         0 // Start time (0 means start now)
       );
-      setTxnHash(hash);
-      console.log("Payment scheduled:", hash);
+      setTxnResult(result);
+      console.log("Payment scheduled:", result);
     } catch (err: any) {
       setError(`Failed to create payment: ${err.message}`);
       console.error("Payment creation error:", err);
@@ -121,6 +138,26 @@ export default function PayMasterTestUI() {
     }
   };
 
+  // Save the recipient to the address book after checking it on chain
+  const saveRecipient = async () => {
+    if (!addressBook || !recipientAddress || !contactName) return;
+
+    setLoading(true);
+    setError("");
+
+    try {
+      await addressBook.add({ name: contactName, address: recipientAddress });
+      setContacts(await addressBook.list());
+      setRecipientAddress(contactName);
+      setContactName("");
+    } catch (err: any) {
+      setError(`Failed to save recipient: ${err.message}`);
+      console.error("Address book error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Initialize risk profile
   const initializeRiskProfile = async () => {
     if (!agent) return;
@@ -129,9 +166,15 @@ export default function PayMasterTestUI() {
     setError("");
 
     try {
-      const hash = await agent.initializeRiskProfile();
-      setTxnHash(hash);
-      console.log("Risk profile initialized:", hash);
+      const result = await agent.initializeRiskProfile();
+      setTxnResult(result);
+      console.log("Risk profile initialized:", result);
+
+      // Assess with the profile's thresholds rather than the engine defaults
+      if (riskEngine) {
+        const thresholds = await riskEngine.loadRiskThresholds(agent);
+        console.log("Risk thresholds loaded:", thresholds);
+      }
     } catch (err: any) {
       setError(`Failed to initialize risk profile: ${err.message}`);
       console.error("Risk profile initialization error:", err);
@@ -163,14 +206,13 @@ export default function PayMasterTestUI() {
 
   // Assess risk
   const performRiskAssessment = async () => {
-    if (!riskEngine) return;
+    if (!riskEngine || !account) return;
 
     try {
-      // For demo purposes, hardcoded available liquidity
-      const availableLiquidity = "500";
-
-      // Perform risk assessment
-      const assessment = riskEngine.performRiskAssessment(availableLiquidity);
+      // Assess the account's scheduled payments against its balance
+      const assessment = await riskEngine.performRiskAssessment(
+        account.accountAddress.toString()
+      );
       setRiskAssessment(assessment);
       console.log("Risk assessment:", assessment);
     } catch (err: any) {
@@ -236,14 +278,43 @@ export default function PayMasterTestUI() {
         <h2 className="text-xl font-semibold mb-4">Create Scheduled Payment</h2>
         <div className="space-y-4">
           <div>
-            <label className="block mb-1">Recipient Address:</label>
+            <label className="block mb-1">Recipient Address or Name:</label>
             <input
               type="text"
+              list="saved-recipients"
               value={recipientAddress}
               onChange={(e) => setRecipientAddress(e.target.value)}
               className="w-full p-2 border rounded"
-              placeholder="0x..."
+              placeholder="0x... or a saved name"
+            />
+            <datalist id="saved-recipients">
+              {contacts.map((contact) => (
+                <option key={contact.name} value={contact.name}>
+                  {contact.address}
+                </option>
+              ))}
+            </datalist>
+          </div>
+
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={contactName}
+              onChange={(e) => setContactName(e.target.value)}
+              className="flex-1 p-2 border rounded"
+              placeholder="Save recipient as..."
             />
+            <button
+              onClick={saveRecipient}
+              disabled={loading || !recipientAddress || !contactName}
+              className={`px-4 py-2 rounded ${
+                loading || !recipientAddress || !contactName
+                  ? "bg-gray-300"
+                  : "bg-blue-500 text-white"
+              }`}
+            >
+              Save
+            </button>
           </div>
 
           <div>
@@ -423,16 +494,34 @@ export default function PayMasterTestUI() {
       </div>
 
       {/* Transaction Status */}
-      {txnHash && (
+      {txnResult && (
         <div className="mb-8 p-4 border rounded-lg bg-gray-50">
           <h2 className="text-xl font-semibold mb-2">Transaction Status</h2>
           <p>
             <strong>Latest Transaction Hash:</strong>
           </p>
-          <p className="font-mono break-all text-sm">{txnHash}</p>
+          <p className="font-mono break-all text-sm">{txnResult.hash}</p>
+          <p className="mt-2">
+            <strong>Status:</strong>{" "}
+            <span
+              className={txnResult.success ? "text-green-600" : "text-red-600"}
+            >
+              {txnResult.success ? "Committed" : "Failed"}
+            </span>{" "}
+            ({txnResult.vmStatus})
+          </p>
+          <p>
+            <strong>Version:</strong> {txnResult.version}
+          </p>
+          <p>
+            <strong>Gas Used:</strong> {txnResult.gasUsed}
+          </p>
+          <p>
+            <strong>Events:</strong> {txnResult.events.length}
+          </p>
           <p className="mt-2">
             <a
-              href={`https://explorer.aptoslabs.com/txn/${txnHash}?network=testnet`}
+              href={`https://explorer.aptoslabs.com/txn/${txnResult.hash}?network=testnet`}
               target="_blank"
               rel="noopener noreferrer"
               className="text-blue-500 hover:underline"
@@ -1,5 +1,6 @@
 import { LocalSigner } from "move-agent-kit";
 import { AptosAccount, Network } from "@aptos-labs/ts-sdk";
+import { CoinForecast, requiredReserve } from "./CashFlowForecaster";
 
 // Protocol types
 export interface ProtocolInfo {
@@ -112,18 +113,23 @@ export class AIYieldOptimizer {
    * Optimize portfolio allocation based on user's risk preference
    * @param availableFunds Total available funds to allocate
    * @param emergencyFundsPercentage Percentage to keep as emergency funds (0-100)
+   * @param forecast Cash-flow forecast of the same coin; payments due in its
+   * window are kept back when they exceed the emergency percentage
    * @returns Recommended allocation strategy
    */
   optimizeAllocation(
     availableFunds: string,
-    emergencyFundsPercentage: number = 10
+    emergencyFundsPercentage: number = 10,
+    forecast?: CoinForecast
   ): StrategyRecommendation[] {
     const recommendations: StrategyRecommendation[] = [];
     const availableFundsNumber = parseFloat(availableFunds);
 
     // Calculate emergency funds
-    const emergencyFunds =
-      availableFundsNumber * (emergencyFundsPercentage / 100);
+    const emergencyFunds = Math.max(
+      availableFundsNumber * (emergencyFundsPercentage / 100),
+      forecast ? requiredReserve(forecast) : 0
+    );
     const allocatableFunds = availableFundsNumber - emergencyFunds;
 
     if (allocatableFunds <= 0) {
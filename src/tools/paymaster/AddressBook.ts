@@ -0,0 +1,211 @@
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { RecipientValidationError } from "./PayMasterErrors";
+import { PayMasterAgent } from "./PayMasterAgent";
+import { MemoryStateStore, StateStore } from "./StateStore";
+
+/**
+ * A named recipient
+ */
+export interface AddressBookEntry {
+  name: string; // Unique, used in place of the address
+  address: string; // Long form
+  label?: string; // Free-form description, e.g. "Design contractor"
+  tags: string[];
+  coinTypes: string[]; // Coins the recipient was checked to receive
+  addedAt: number; // ms
+}
+
+/**
+ * A recipient to add to the address book
+ */
+export interface NewAddressBookEntry {
+  name: string;
+  address: string;
+  label?: string;
+  tags?: string[];
+  coinTypes?: string[]; // Coins to check the recipient can receive (default: APT)
+}
+
+export interface AddressBookState {
+  entries: AddressBookEntry[];
+}
+
+/**
+ * Named recipients with labels and tags. Entries are checked on chain when
+ * added, so payments by name never go to a mistyped or unregistered address.
+ */
+export class AddressBook {
+  private agent: PayMasterAgent;
+  private store: StateStore<AddressBookState>;
+  private state: AddressBookState | null = null;
+
+  constructor(
+    agent: PayMasterAgent,
+    store: StateStore<AddressBookState> = new MemoryStateStore()
+  ) {
+    this.agent = agent;
+    this.store = store;
+  }
+
+  /**
+   * Add a recipient after checking that its account exists and can receive
+   * each of its coin types
+   * @param entry The recipient
+   * @throws RecipientValidationError if a check fails
+   */
+  async add(entry: NewAddressBookEntry): Promise<AddressBookEntry> {
+    const name = entry.name.trim();
+    if (!name) {
+      throw new Error("Address book entries need a name");
+    }
+    if (AccountAddress.isValid({ input: name }).valid) {
+      throw new Error(`Name ${name} looks like an address`);
+    }
+
+    const state = await this.loadState();
+    if (state.entries.some((existing) => existing.name === name)) {
+      throw new Error(`Address book already has an entry named ${name}`);
+    }
+
+    const coinTypes = entry.coinTypes?.length
+      ? entry.coinTypes
+      : ["0x1::aptos_coin::AptosCoin"];
+    const address = await this.checkAll(entry.address, coinTypes);
+
+    const added: AddressBookEntry = {
+      name,
+      address,
+      label: entry.label,
+      tags: entry.tags ?? [],
+      coinTypes,
+      addedAt: Date.now(),
+    };
+    state.entries.push(added);
+    await this.store.save(state);
+    return { ...added };
+  }
+
+  /**
+   * Change an entry's label, tags or coin types. New coin types are checked
+   * on chain.
+   * @param name The entry's name
+   * @param changes The fields to change
+   */
+  async update(
+    name: string,
+    changes: Pick<Partial<AddressBookEntry>, "label" | "tags" | "coinTypes">
+  ): Promise<AddressBookEntry> {
+    const state = await this.loadState();
+    const entry = state.entries.find((existing) => existing.name === name);
+    if (!entry) {
+      throw new Error(`No address book entry named ${name}`);
+    }
+
+    if (changes.coinTypes) {
+      await this.checkAll(
+        entry.address,
+        changes.coinTypes.filter(
+          (coinType) => !entry.coinTypes.includes(coinType)
+        )
+      );
+      entry.coinTypes = changes.coinTypes;
+    }
+    if (changes.label !== undefined) {
+      entry.label = changes.label;
+    }
+    if (changes.tags) {
+      entry.tags = changes.tags;
+    }
+
+    await this.store.save(state);
+    return { ...entry };
+  }
+
+  /**
+   * Remove an entry
+   * @param name The entry's name
+   * @returns Whether there was such an entry
+   */
+  async remove(name: string): Promise<boolean> {
+    const state = await this.loadState();
+    const count = state.entries.length;
+    state.entries = state.entries.filter((entry) => entry.name !== name);
+    if (state.entries.length === count) {
+      return false;
+    }
+
+    await this.store.save(state);
+    return true;
+  }
+
+  /**
+   * Get an entry by name
+   * @param name The entry's name
+   */
+  async get(name: string): Promise<AddressBookEntry | null> {
+    const entry = (await this.loadState()).entries.find(
+      (existing) => existing.name === name
+    );
+    return entry ? { ...entry } : null;
+  }
+
+  /**
+   * Find the entry for an address, e.g. to show a name in payment history
+   * @param address The recipient address
+   */
+  async findByAddress(address: string): Promise<AddressBookEntry | null> {
+    const target = AccountAddress.from(address);
+    const entry = (await this.loadState()).entries.find((existing) =>
+      AccountAddress.from(existing.address).equals(target)
+    );
+    return entry ? { ...entry } : null;
+  }
+
+  /**
+   * List entries, optionally only those with a tag
+   * @param tag Tag to filter by
+   */
+  async list(tag?: string): Promise<AddressBookEntry[]> {
+    return (await this.loadState()).entries
+      .filter((entry) => tag === undefined || entry.tags.includes(tag))
+      .map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Turn a name into its address; addresses are returned unchanged
+   * @param recipient A name or an address
+   * @returns The address, or null for an unknown name
+   */
+  async resolve(recipient: string): Promise<string | null> {
+    if (AccountAddress.isValid({ input: recipient }).valid) {
+      return recipient;
+    }
+    return (await this.get(recipient.trim()))?.address ?? null;
+  }
+
+  /**
+   * Check an address against every coin type
+   * @returns The address in long form
+   */
+  private async checkAll(address: string, coinTypes: string[]) {
+    let checked = address;
+    for (const coinType of coinTypes) {
+      const check = await this.agent.checkRecipient(address, coinType);
+      if (check.problems.length > 0) {
+        throw new RecipientValidationError(
+          `Cannot add ${address}: ${check.problems.join("; ")}`,
+          check.problems
+        );
+      }
+      checked = check.address;
+    }
+    return checked;
+  }
+
+  private async loadState(): Promise<AddressBookState> {
+    if (!this.state) {
+      this.state = (await this.store.load()) ?? { entries: [] };
+    }
+    return this.state;
+  }
+}
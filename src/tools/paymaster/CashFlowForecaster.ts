@@ -0,0 +1,205 @@
+import { AccountAddressInput } from "@aptos-labs/ts-sdk";
+import { toDisplayUnits } from "./CoinRegistry";
+import { PayMasterAgent, ScheduledPayment } from "./PayMasterAgent";
+import { SchedulePlanner } from "./SchedulePlanner";
+
+/**
+ * A payment expected to leave the account within the forecast window
+ */
+export interface ForecastOutflow {
+  paymentId: number;
+  recipient: string;
+  amount: string; // Base units
+  dueTime: number; // Unix timestamp (seconds); overdue payments count as due at the start
+  balanceAfter: string; // Base units, may be negative
+}
+
+/**
+ * The projected balance at the end of a UTC day
+ */
+export interface ForecastDay {
+  date: string; // UTC day, e.g. "2025-01-31"
+  outflow: string; // Base units paid that day
+  closingBalance: string; // Base units, may be negative
+}
+
+/**
+ * The projected balance of one coin
+ */
+export interface CoinForecast {
+  coinType: string;
+  symbol: string;
+  decimals: number;
+  startingBalance: string; // Base units
+  totalOutflow: string; // Base units due within the window
+  endingBalance: string; // Base units, may be negative
+  lowestBalance: string; // Base units, may be negative
+  firstNegativeTime: number | null; // When the balance first goes below zero
+  firstNegativeDate: string | null; // UTC day of firstNegativeTime
+  outflows: ForecastOutflow[]; // Every recurrence within the window, in order
+  days: ForecastDay[];
+}
+
+/**
+ * The projected balances of an account
+ */
+export interface CashFlowForecast {
+  account: string;
+  from: number; // Unix timestamp (seconds)
+  to: number; // Unix timestamp (seconds)
+  coins: CoinForecast[];
+}
+
+export interface ForecastOptions {
+  account?: AccountAddressInput; // Defaults to the agent's account
+  coinTypes?: string[]; // Defaults to APT
+  from?: number; // Start of the window (Unix timestamp, default: now)
+}
+
+/**
+ * Get the UTC day of a Unix timestamp, e.g. "2025-01-31"
+ */
+function utcDay(time: number): string {
+  return new Date(time * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Projects an account's balances from its scheduled payments, counting every
+ * recurrence within the window. Only the account's own payments are
+ * counted; incoming payments and gas are not.
+ */
+export class CashFlowForecaster {
+  private agent: PayMasterAgent;
+  private planner: SchedulePlanner;
+
+  constructor(agent: PayMasterAgent) {
+    this.agent = agent;
+    this.planner = agent.getSchedulePlanner();
+  }
+
+  /**
+   * Forecast an account's balances over the next days
+   * @param days Length of the window in days
+   * @param options Account, coins and window start
+   */
+  async forecast(
+    days: number,
+    options: ForecastOptions = {}
+  ): Promise<CashFlowForecast> {
+    if (!Number.isInteger(days) || days <= 0) {
+      throw new Error("A forecast needs a positive whole number of days");
+    }
+
+    const account = options.account ?? this.agent.getAccountAddress();
+    const coinTypes = options.coinTypes ?? ["0x1::aptos_coin::AptosCoin"];
+    const from = options.from ?? Math.floor(Date.now() / 1000);
+    const to = from + days * 86400;
+
+    const coins = await Promise.all(
+      coinTypes.map(async (coinType) => {
+        const [payments, balance, { symbol, decimals }] = await Promise.all([
+          this.agent.listPayments(account, coinType),
+          this.agent.getBalance(coinType, account),
+          this.agent.getCoinRegistry().resolve(coinType),
+        ]);
+        return {
+          ...this.project(payments, balance, from, to),
+          coinType,
+          symbol,
+          decimals,
+        };
+      })
+    );
+
+    return { account: account.toString(), from, to, coins };
+  }
+
+  /**
+   * Project a balance through a set of payments, without reading the chain
+   * @param payments The payments of one coin
+   * @param startingBalance Base units at the start of the window
+   * @param from Start of the window (Unix timestamp, seconds)
+   * @param to End of the window (Unix timestamp, seconds)
+   */
+  project(
+    payments: ScheduledPayment[],
+    startingBalance: string,
+    from: number,
+    to: number
+  ): Omit<CoinForecast, "coinType" | "symbol" | "decimals"> {
+    const due = payments
+      .flatMap((payment) =>
+        this.planner
+          .paymentDueTimes(payment, from, to)
+          .map((dueTime) => ({ payment, dueTime }))
+      )
+      .sort(
+        (a, b) =>
+          a.dueTime - b.dueTime || a.payment.paymentId - b.payment.paymentId
+      );
+
+    let balance = BigInt(startingBalance);
+    let lowest = balance;
+    let totalOutflow = BigInt(0);
+    let firstNegativeTime: number | null = null;
+    const outflows: ForecastOutflow[] = [];
+    const dailyOutflow = new Map<string, bigint>();
+
+    for (const { payment, dueTime } of due) {
+      const amount = BigInt(payment.amount);
+      balance -= amount;
+      totalOutflow += amount;
+      if (balance < lowest) {
+        lowest = balance;
+      }
+      if (balance < BigInt(0) && firstNegativeTime === null) {
+        firstNegativeTime = dueTime;
+      }
+
+      const day = utcDay(dueTime);
+      dailyOutflow.set(day, (dailyOutflow.get(day) ?? BigInt(0)) + amount);
+      outflows.push({
+        paymentId: payment.paymentId,
+        recipient: payment.recipient,
+        amount: payment.amount,
+        dueTime,
+        balanceAfter: balance.toString(),
+      });
+    }
+
+    // One entry per UTC day the window touches
+    const days: ForecastDay[] = [];
+    let closing = BigInt(startingBalance);
+    for (let time = from; utcDay(time) <= utcDay(to); time += 86400) {
+      const date = utcDay(time);
+      const outflow = dailyOutflow.get(date) ?? BigInt(0);
+      closing -= outflow;
+      days.push({
+        date,
+        outflow: outflow.toString(),
+        closingBalance: closing.toString(),
+      });
+    }
+
+    return {
+      startingBalance,
+      totalOutflow: totalOutflow.toString(),
+      endingBalance: balance.toString(),
+      lowestBalance: lowest.toString(),
+      firstNegativeTime,
+      firstNegativeDate:
+        firstNegativeTime === null ? null : utcDay(firstNegativeTime),
+      outflows,
+      days,
+    };
+  }
+}
+
+/**
+ * The funds a forecast says must stay liquid: everything due in the window
+ * @param forecast The forecast of one coin
+ * @returns Display units, e.g. 12.5 for 12.5 APT
+ */
+export function requiredReserve(forecast: CoinForecast): number {
+  return parseFloat(toDisplayUnits(forecast.totalOutflow, forecast.decimals));
+}
@@ -0,0 +1,215 @@
+import { AccountAddress, Aptos } from "@aptos-labs/ts-sdk";
+
+/**
+ * Display information for a coin type or fungible asset
+ */
+export interface CoinMetadata {
+  coinType: string; // Coin type, or metadata address for a fungible asset
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * An amount in either unit form.
+ * A plain string is read as base units (e.g. octas); a string with a symbol
+ * suffix such as "10 APT" is read as display units.
+ */
+export type AmountInput = string | { value: string; units: "base" | "display" };
+
+// Coins known without asking the chain
+const BUILTIN_COINS: CoinMetadata[] = [
+  {
+    coinType: "0x1::aptos_coin::AptosCoin",
+    name: "Aptos Coin",
+    symbol: "APT",
+    decimals: 8,
+  },
+  {
+    coinType: "0xa", // APT as a fungible asset
+    name: "Aptos Coin",
+    symbol: "APT",
+    decimals: 8,
+  },
+];
+
+/**
+ * Check if an asset type is a fungible asset metadata address rather than a
+ * legacy coin type
+ * @param assetType A coin type such as "0x1::aptos_coin::AptosCoin" or a metadata address such as "0xa"
+ */
+export function isFungibleAsset(assetType: string): boolean {
+  return !assetType.includes("::");
+}
+
+/**
+ * Normalize a metadata address so that "0xa" and its long form match
+ * @param assetType A coin type or fungible asset metadata address
+ */
+function normalizeAssetType(assetType: string): string {
+  return isFungibleAsset(assetType)
+    ? AccountAddress.from(assetType).toString()
+    : assetType;
+}
+
+/**
+ * Convert a display amount to base units without losing precision
+ * @param amount Display amount, e.g. "10.5"
+ * @param decimals Number of decimals of the coin
+ * @returns Base units, e.g. "1050000000" for 8 decimals
+ */
+export function toBaseUnits(amount: string, decimals: number): string {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(amount.trim());
+  if (!match) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    throw new Error(
+      `Amount ${amount} has more than ${decimals} decimal places`
+    );
+  }
+
+  return BigInt(whole + fraction.padEnd(decimals, "0")).toString();
+}
+
+/**
+ * Convert base units to a display amount without losing precision
+ * @param amount Base units, e.g. "1050000000"
+ * @param decimals Number of decimals of the coin
+ * @returns Display amount, e.g. "10.5" for 8 decimals
+ */
+export function toDisplayUnits(
+  amount: string | bigint,
+  decimals: number
+): string {
+  const digits = BigInt(amount).toString();
+  if (decimals === 0) {
+    return digits;
+  }
+
+  const padded = digits.padStart(decimals + 1, "0");
+  const whole = padded.slice(0, -decimals);
+  const fraction = padded.slice(-decimals).replace(/0+$/, "");
+
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+export class CoinRegistry {
+  private client: Aptos;
+  private coins: Map<string, CoinMetadata>;
+
+  constructor(client: Aptos, coins: CoinMetadata[] = []) {
+    this.client = client;
+    this.coins = new Map();
+
+    [...BUILTIN_COINS, ...coins].forEach((coin) => this.register(coin));
+  }
+
+  /**
+   * Register metadata for a coin type, e.g. one that is not on chain yet
+   * @param metadata The coin metadata
+   */
+  register(metadata: CoinMetadata): void {
+    this.coins.set(normalizeAssetType(metadata.coinType), { ...metadata });
+  }
+
+  /**
+   * Resolve the metadata of a coin type, fetching it from chain when unknown
+   * @param coinType The type of coin
+   */
+  async resolve(coinType: string): Promise<CoinMetadata> {
+    const known = this.coins.get(normalizeAssetType(coinType));
+    if (known) {
+      return { ...known };
+    }
+
+    try {
+      // Fungible assets expose their metadata on the metadata object
+      const payload = (name: string) =>
+        isFungibleAsset(coinType)
+          ? {
+              function: `0x1::fungible_asset::${name}` as const,
+              typeArguments: ["0x1::fungible_asset::Metadata"],
+              functionArguments: [coinType],
+            }
+          : {
+              function: `0x1::coin::${name}` as const,
+              typeArguments: [coinType],
+              functionArguments: [],
+            };
+
+      const [[nameValue], [symbol], [decimals]] = await Promise.all([
+        this.client.view<[string]>({ payload: payload("name") }),
+        this.client.view<[string]>({ payload: payload("symbol") }),
+        this.client.view<[number]>({ payload: payload("decimals") }),
+      ]);
+
+      const metadata: CoinMetadata = {
+        coinType,
+        name: nameValue,
+        symbol,
+        decimals: Number(decimals),
+      };
+      this.register(metadata);
+
+      return { ...metadata };
+    } catch (error: any) {
+      throw new Error(
+        `Failed to resolve coin metadata for ${coinType}: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Convert an amount in either unit form to base units
+   * @param amount The amount, e.g. "1000000000", "10 APT" or { value: "10", units: "display" }
+   * @param coinType The type of coin
+   * @returns Base units as a string
+   */
+  async parseAmount(amount: AmountInput, coinType: string): Promise<string> {
+    if (typeof amount !== "string") {
+      if (amount.units === "base") {
+        return toBaseUnits(amount.value, 0);
+      }
+      const { decimals } = await this.resolve(coinType);
+      return toBaseUnits(amount.value, decimals);
+    }
+
+    const match = /^\s*(\S+)\s+(\S+)\s*$/.exec(amount);
+    if (!match) {
+      // A bare number is base units, so a fraction is almost certainly a
+      // display amount missing its symbol
+      if (amount.includes(".")) {
+        throw new Error(
+          `Amount ${amount} has a fraction but no symbol; add the coin symbol (e.g. "${amount.trim()} APT") for display units`
+        );
+      }
+      return toBaseUnits(amount, 0);
+    }
+
+    const [, value, symbol] = match;
+    const metadata = await this.resolve(coinType);
+    if (symbol.toUpperCase() !== metadata.symbol.toUpperCase()) {
+      throw new Error(
+        `Amount ${amount} is not denominated in ${metadata.symbol} (${coinType})`
+      );
+    }
+
+    return toBaseUnits(value, metadata.decimals);
+  }
+
+  /**
+   * Format base units for display, e.g. "1050000000" -> "10.5 APT"
+   * @param amount Base units
+   * @param coinType The type of coin
+   */
+  async formatAmount(
+    amount: string | bigint,
+    coinType: string
+  ): Promise<string> {
+    const { decimals, symbol } = await this.resolve(coinType);
+    return `${toDisplayUnits(amount, decimals)} ${symbol}`;
+  }
+}
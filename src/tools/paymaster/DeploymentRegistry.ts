@@ -0,0 +1,137 @@
+import {
+  Aptos,
+  AptosConfig,
+  Network as AptosNetwork,
+} from "@aptos-labs/ts-sdk";
+
+// Address the paymaster package is published at by default
+export const PAYMASTER_ADDRESS =
+  "0x598a188bf6a32b61e7508acc4b2fc672ae7d953aba5ccb46976e6bee4814efbf";
+
+// Define our own Network enum for compatibility
+export enum Network {
+  DEVNET = "devnet",
+  TESTNET = "testnet",
+  MAINNET = "mainnet",
+  LOCAL = "local",
+}
+
+// Modules every paymaster deployment must publish
+export const PAYMASTER_MODULES = [
+  "payment_automation",
+  "yield_optimizer",
+  "risk_manager",
+];
+
+/**
+ * Where the paymaster package lives on a network
+ */
+export interface PayMasterDeployment {
+  network: Network;
+  address: string; // Address the paymaster package is published at
+  fullnodeUrl?: string; // Custom fullnode REST endpoint, e.g. http://127.0.0.1:8080/v1
+  indexerUrl?: string; // Custom indexer GraphQL endpoint
+}
+
+// Map our Network enum to AptosNetwork
+const APTOS_NETWORKS: Record<Network, AptosNetwork> = {
+  [Network.DEVNET]: AptosNetwork.DEVNET,
+  [Network.TESTNET]: AptosNetwork.TESTNET,
+  [Network.MAINNET]: AptosNetwork.MAINNET,
+  [Network.LOCAL]: AptosNetwork.LOCAL,
+};
+
+export class DeploymentRegistry {
+  private deployments: Map<Network, PayMasterDeployment>;
+
+  constructor(deployments: PayMasterDeployment[] = []) {
+    this.deployments = new Map();
+
+    // Every network defaults to the published address and its standard endpoints
+    for (const network of Object.values(Network)) {
+      this.deployments.set(network, { network, address: PAYMASTER_ADDRESS });
+    }
+
+    deployments.forEach((deployment) => this.register(deployment));
+  }
+
+  /**
+   * Register (or replace) the deployment for a network
+   * @param deployment The deployment details
+   */
+  register(deployment: PayMasterDeployment): void {
+    this.deployments.set(deployment.network, { ...deployment });
+  }
+
+  /**
+   * Get the deployment for a network
+   * @param network The network
+   */
+  get(network: Network): PayMasterDeployment {
+    const deployment = this.deployments.get(network);
+    if (!deployment) {
+      throw new Error(`No paymaster deployment registered for ${network}`);
+    }
+    return { ...deployment };
+  }
+
+  /**
+   * Get all registered deployments
+   */
+  list(): PayMasterDeployment[] {
+    return Array.from(this.deployments.values()).map((deployment) => ({
+      ...deployment,
+    }));
+  }
+
+  /**
+   * Create an Aptos client for a network, honoring custom endpoints
+   * @param network The network
+   */
+  createClient(network: Network): Aptos {
+    const deployment = this.get(network);
+
+    const config = new AptosConfig({
+      network: APTOS_NETWORKS[network],
+      fullnode: deployment.fullnodeUrl,
+      indexer: deployment.indexerUrl,
+    });
+
+    return new Aptos(config);
+  }
+
+  /**
+   * Check that every paymaster module is published at the configured address
+   * @param network The network
+   * @param client Optional client to use instead of creating one
+   */
+  async verifyDeployment(network: Network, client?: Aptos): Promise<void> {
+    const deployment = this.get(network);
+    const aptos = client ?? this.createClient(network);
+
+    const missingModules: string[] = [];
+    for (const moduleName of PAYMASTER_MODULES) {
+      try {
+        await aptos.getAccountModule({
+          accountAddress: deployment.address,
+          moduleName,
+        });
+      } catch (error: any) {
+        if (error.status !== 404) {
+          throw new Error(
+            `Failed to verify paymaster deployment on ${network}: ${error.message}`
+          );
+        }
+        missingModules.push(moduleName);
+      }
+    }
+
+    if (missingModules.length > 0) {
+      throw new Error(
+        `Paymaster deployment on ${network} at ${
+          deployment.address
+        } is missing modules: ${missingModules.join(", ")}`
+      );
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import {
+  AccountAddress,
+  AccountAddressInput,
+  AccountAuthenticator,
+  PublicKey,
+  SimpleTransaction,
+} from "@aptos-labs/ts-sdk";
+import { SponsorPolicyError } from "./PayMasterErrors";
+import { PayMasterSigner } from "./PayMasterSigner";
+import { MemoryStateStore, StateStore } from "./StateStore";
+
+// Functions sponsored when the policy does not list any
+export const DEFAULT_SPONSORED_FUNCTIONS = [
+  "payment_automation::create_scheduled_payment",
+  "payment_automation::create_finite_scheduled_payment",
+  "payment_automation::create_one_time_payment",
+  "payment_automation::create_calendar_payment",
+  "payment_automation::execute_payment",
+  "payment_automation::execute_calendar_payment",
+  "payment_automation::skip_calendar_payment",
+];
+
+/**
+ * What a sponsor is willing to pay for. Budgets are gas fees in octas and
+ * reset at midnight UTC.
+ */
+export interface SponsorPolicy {
+  allowedFunctions?: string[]; // "module::function" at the paymaster address
+  perUserDailyBudget: string; // Max fees per sponsored user per day
+  dailyCap: string; // Max fees across all users per day
+}
+
+/**
+ * Gas spent on behalf of one user
+ */
+export interface SponsoredUserAccount {
+  spentToday: string; // Octas
+  totalSpent: string; // Octas
+  transactions: number;
+}
+
+/**
+ * Gas accounting of a sponsor
+ */
+export interface SponsorLedger {
+  day: string; // UTC day the daily figures are for, e.g. "2025-01-31"
+  spentToday: string; // Octas
+  totalSpent: string; // Octas
+  users: Record<string, SponsoredUserAccount>; // Keyed by user address
+}
+
+export interface GasSponsorConfig {
+  signer: PayMasterSigner; // The account paying the gas
+  policy: SponsorPolicy;
+  baseAddress: string; // Address the paymaster package is published at, e.g. agent.getModuleAddress()
+  store?: StateStore<SponsorLedger>; // Where the ledger is persisted
+}
+
+/**
+ * Fees held for a sponsored transaction until it commits or expires
+ */
+export interface SponsorReservation {
+  user: string;
+  maxFee: bigint; // max_gas_amount * gas_unit_price of the transaction
+  expiresAt: number; // Unix timestamp (seconds) after which it cannot commit
+  day: string; // UTC day it counts against
+}
+
+/**
+ * Get the current UTC day, e.g. "2025-01-31"
+ */
+function utcDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export class GasSponsor {
+  private signer: PayMasterSigner;
+  private policy: SponsorPolicy;
+  private allowedFunctions: Set<string>;
+  private store: StateStore<SponsorLedger>;
+  private ledger: SponsorLedger | null = null;
+  private reservations: SponsorReservation[] = [];
+
+  constructor(config: GasSponsorConfig) {
+    this.signer = config.signer;
+    this.policy = config.policy;
+    this.store = config.store ?? new MemoryStateStore();
+
+    const baseAddress = AccountAddress.from(config.baseAddress).toString();
+    this.allowedFunctions = new Set(
+      (config.policy.allowedFunctions ?? DEFAULT_SPONSORED_FUNCTIONS).map(
+        (name) => `${baseAddress}::${name}`
+      )
+    );
+  }
+
+  /**
+   * The address of the account paying the gas
+   */
+  get accountAddress(): AccountAddress {
+    return this.signer.accountAddress;
+  }
+
+  /**
+   * The public key of the account paying the gas, if known
+   */
+  get publicKey(): PublicKey | undefined {
+    return this.signer.publicKey;
+  }
+
+  /**
+   * Check if the policy allows sponsoring a function
+   * @param functionId Fully qualified function, e.g. "0x1::module::function"
+   */
+  covers(functionId: string): boolean {
+    const [address, ...rest] = functionId.split("::");
+    return this.allowedFunctions.has(
+      [AccountAddress.from(address).toString(), ...rest].join("::")
+    );
+  }
+
+  /**
+   * Hold the maximum fee of a transaction against the user's budget and the
+   * daily cap
+   * @param user The sender of the transaction
+   * @param functionId The function the transaction calls
+   * @param maxFee The most the transaction can cost (octas)
+   * @param expiresAt The transaction's expiration (Unix timestamp, seconds)
+   * @throws SponsorPolicyError if the policy does not allow it
+   */
+  async reserve(
+    user: AccountAddressInput,
+    functionId: string,
+    maxFee: bigint,
+    expiresAt: number
+  ): Promise<SponsorReservation> {
+    if (!this.covers(functionId)) {
+      throw new SponsorPolicyError(`${functionId} is not sponsored`);
+    }
+
+    const ledger = await this.loadLedger();
+    const address = AccountAddress.from(user).toString();
+
+    // Holds from an earlier day no longer count against today's budgets
+    this.reservations = this.reservations.filter(
+      (reservation) => reservation.day === ledger.day
+    );
+
+    const reservedForUser = this.reservations
+      .filter((reservation) => reservation.user === address)
+      .reduce((sum, reservation) => sum + reservation.maxFee, BigInt(0));
+    const reservedTotal = this.reservations.reduce(
+      (sum, reservation) => sum + reservation.maxFee,
+      BigInt(0)
+    );
+
+    const userSpent = BigInt(ledger.users[address]?.spentToday ?? "0");
+    if (
+      userSpent + reservedForUser + maxFee >
+      BigInt(this.policy.perUserDailyBudget)
+    ) {
+      throw new SponsorPolicyError(
+        `Daily gas budget of ${this.policy.perUserDailyBudget} octas exhausted for ${address}`
+      );
+    }
+    if (
+      BigInt(ledger.spentToday) + reservedTotal + maxFee >
+      BigInt(this.policy.dailyCap)
+    ) {
+      throw new SponsorPolicyError(
+        `Sponsor daily cap of ${this.policy.dailyCap} octas reached`
+      );
+    }
+
+    const reservation = { user: address, maxFee, expiresAt, day: ledger.day };
+    this.reservations.push(reservation);
+    return reservation;
+  }
+
+  /**
+   * Drop a reservation whose transaction was never submitted, or expired
+   * without committing
+   * @param reservation The reservation
+   */
+  release(reservation: SponsorReservation): void {
+    this.reservations = this.reservations.filter((r) => r !== reservation);
+  }
+
+  /**
+   * Record the fee a committed transaction actually cost
+   * @param reservation The reservation made for it
+   * @param fee gas_used * gas_unit_price (octas)
+   */
+  async settle(reservation: SponsorReservation, fee: bigint): Promise<void> {
+    this.release(reservation);
+    await this.record(reservation.user, fee);
+  }
+
+  /**
+   * Record the fee of a sponsored transaction that has no reservation, e.g.
+   * one found to have committed after a restart
+   * @param user The sender of the transaction
+   * @param fee gas_used * gas_unit_price (octas)
+   */
+  async record(user: AccountAddressInput, fee: bigint): Promise<void> {
+    const address = AccountAddress.from(user).toString();
+    const ledger = await this.loadLedger();
+    const account = ledger.users[address] ?? {
+      spentToday: "0",
+      totalSpent: "0",
+      transactions: 0,
+    };
+
+    ledger.users[address] = {
+      spentToday: (BigInt(account.spentToday) + fee).toString(),
+      totalSpent: (BigInt(account.totalSpent) + fee).toString(),
+      transactions: account.transactions + 1,
+    };
+    ledger.spentToday = (BigInt(ledger.spentToday) + fee).toString();
+    ledger.totalSpent = (BigInt(ledger.totalSpent) + fee).toString();
+
+    await this.store.save(ledger);
+  }
+
+  /**
+   * Sign a transaction as its fee payer
+   * @param transaction A transaction built with a fee payer
+   */
+  async signAsFeePayer(
+    transaction: SimpleTransaction
+  ): Promise<AccountAuthenticator> {
+    if (!transaction.feePayerAddress?.equals(this.accountAddress)) {
+      throw new SponsorPolicyError(
+        "Transaction does not name this sponsor as its fee payer"
+      );
+    }
+    return this.signer.signTransaction(transaction);
+  }
+
+  /**
+   * Get the gas accounting for all sponsored users
+   */
+  async getLedger(): Promise<SponsorLedger> {
+    return structuredClone(await this.loadLedger());
+  }
+
+  /**
+   * Get the gas spent on behalf of a user
+   * @param user The user's address
+   */
+  async getUserAccount(
+    user: AccountAddressInput
+  ): Promise<SponsoredUserAccount> {
+    const ledger = await this.loadLedger();
+    const account = ledger.users[AccountAddress.from(user).toString()];
+    return account
+      ? { ...account }
+      : { spentToday: "0", totalSpent: "0", transactions: 0 };
+  }
+
+  /**
+   * Load the ledger, starting a new day's figures when the day has changed
+   */
+  private async loadLedger(): Promise<SponsorLedger> {
+    if (!this.ledger) {
+      this.ledger = (await this.store.load()) ?? {
+        day: utcDay(),
+        spentToday: "0",
+        totalSpent: "0",
+        users: {},
+      };
+    }
+
+    const today = utcDay();
+    if (this.ledger.day !== today) {
+      this.ledger.day = today;
+      this.ledger.spentToday = "0";
+      for (const account of Object.values(this.ledger.users)) {
+        account.spentToday = "0";
+      }
+    }
+
+    return this.ledger;
+  }
+}
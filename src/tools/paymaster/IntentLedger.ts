@@ -0,0 +1,259 @@
+import { InputEntryFunctionData } from "@aptos-labs/ts-sdk";
+import { DuplicateRequestError } from "./PayMasterErrors";
+import { TransactionResult } from "./PayMasterAgent";
+import { MemoryStateStore, StateStore } from "./StateStore";
+
+/**
+ * Where a request stands:
+ * - pending: recorded, not yet signed
+ * - submitted: signed and handed to the network; it may or may not commit
+ * - committed: executed successfully
+ * - failed: never reached the chain or aborted, so nothing was paid and the
+ *   request may be retried
+ */
+export type IntentStatus = "pending" | "submitted" | "committed" | "failed";
+
+/**
+ * A transaction the agent was asked to send under a client request ID
+ */
+export interface PaymentIntent {
+  requestId: string;
+  function: string; // Entry function
+  fingerprint: string; // Function and arguments, to catch a reused request ID
+  status: IntentStatus;
+  hash?: string; // Known once signed
+  expiresAt?: number; // Unix timestamp (seconds) after which it cannot commit
+  result?: TransactionResult; // Once on chain, without the decoded error
+  error?: string; // Why it failed
+  attempts: number;
+  createdAt: number; // ms
+  updatedAt: number; // ms
+}
+
+export interface IntentLedgerState {
+  intents: Record<string, PaymentIntent>; // Keyed by request ID
+}
+
+/**
+ * Describe a transaction so that a retry can be told apart from a different
+ * transaction sent under the same request ID
+ * @param data The entry function payload
+ */
+function fingerprintOf(data: InputEntryFunctionData): string {
+  return JSON.stringify(
+    [data.function, data.typeArguments ?? [], data.functionArguments],
+    (_, value) => (typeof value === "bigint" ? value.toString() : value)
+  );
+}
+
+/**
+ * Records every transaction sent under a client request ID, so that a retry
+ * after a crash or dropped connection returns the earlier outcome instead of
+ * paying twice
+ */
+export class IntentLedger {
+  private store: StateStore<IntentLedgerState>;
+  private state: IntentLedgerState | null = null;
+  private active = new Set<string>(); // Requests being sent by this process
+
+  constructor(store: StateStore<IntentLedgerState> = new MemoryStateStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Claim a request ID for a transaction, recording it if it is new
+   * @param requestId The client request ID
+   * @param data The entry function payload
+   * @returns The intent, which may be left over from an earlier attempt
+   * @throws DuplicateRequestError if the request is already being sent, or
+   * the ID was used for a different transaction
+   */
+  async begin(
+    requestId: string,
+    data: InputEntryFunctionData
+  ): Promise<PaymentIntent> {
+    const state = await this.loadState();
+    const fingerprint = fingerprintOf(data);
+
+    if (this.active.has(requestId)) {
+      throw new DuplicateRequestError(
+        `Request ${requestId} is already being sent`,
+        requestId
+      );
+    }
+
+    const existing = state.intents[requestId];
+    if (existing && existing.fingerprint !== fingerprint) {
+      throw new DuplicateRequestError(
+        `Request ${requestId} was already used for a different transaction (${existing.function})`,
+        requestId
+      );
+    }
+
+    this.active.add(requestId);
+    if (existing) {
+      return { ...existing };
+    }
+
+    const now = Date.now();
+    const intent: PaymentIntent = {
+      requestId,
+      function: data.function,
+      fingerprint,
+      status: "pending",
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    state.intents[requestId] = intent;
+    await this.store.save(state);
+    return { ...intent };
+  }
+
+  /**
+   * Let another call claim the request ID again
+   * @param requestId The client request ID
+   */
+  end(requestId: string): void {
+    this.active.delete(requestId);
+  }
+
+  /**
+   * Start a new attempt at a request that did not commit
+   * @param requestId The client request ID
+   */
+  async markPending(requestId: string): Promise<void> {
+    await this.update(requestId, (intent) => {
+      intent.status = "pending";
+      intent.attempts++;
+      delete intent.hash;
+      delete intent.expiresAt;
+      delete intent.result;
+      delete intent.error;
+    });
+  }
+
+  /**
+   * Record the hash of a signed transaction before it is sent
+   * @param requestId The client request ID
+   * @param hash The transaction hash
+   * @param expiresAt When the transaction expires (Unix timestamp)
+   */
+  async markSubmitted(
+    requestId: string,
+    hash: string,
+    expiresAt: number
+  ): Promise<void> {
+    await this.update(requestId, (intent) => {
+      intent.status = "submitted";
+      intent.hash = hash;
+      intent.expiresAt = expiresAt;
+    });
+  }
+
+  /**
+   * Record a transaction that executed successfully
+   * @param requestId The client request ID
+   * @param result The committed result
+   */
+  async markCommitted(
+    requestId: string,
+    result: TransactionResult
+  ): Promise<void> {
+    await this.update(requestId, (intent) => {
+      intent.status = "committed";
+      intent.hash = result.hash;
+      intent.result = { ...result, error: undefined };
+    });
+  }
+
+  /**
+   * Record a request that is known not to have paid anything
+   * @param requestId The client request ID
+   * @param error Why it failed
+   * @param result The committed result, if it aborted on chain
+   */
+  async markFailed(
+    requestId: string,
+    error: string,
+    result?: TransactionResult
+  ): Promise<void> {
+    await this.update(requestId, (intent) => {
+      intent.status = "failed";
+      intent.error = error;
+      if (result) {
+        intent.hash = result.hash;
+        intent.result = { ...result, error: undefined };
+      }
+    });
+  }
+
+  /**
+   * Get the intent recorded for a request ID
+   * @param requestId The client request ID
+   */
+  async get(requestId: string): Promise<PaymentIntent | null> {
+    const intent = (await this.loadState()).intents[requestId];
+    return intent ? { ...intent } : null;
+  }
+
+  /**
+   * List recorded intents, optionally only those with a status
+   * @param status Status to filter by, e.g. "submitted" to find requests
+   * whose outcome is unknown
+   */
+  async list(status?: IntentStatus): Promise<PaymentIntent[]> {
+    return Object.values((await this.loadState()).intents)
+      .filter((intent) => status === undefined || intent.status === status)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((intent) => ({ ...intent }));
+  }
+
+  /**
+   * Forget committed and failed intents last updated before a time. Their
+   * request IDs are then treated as new.
+   * @param before Unix timestamp (ms)
+   * @returns How many intents were removed
+   */
+  async prune(before: number): Promise<number> {
+    const state = await this.loadState();
+    let removed = 0;
+    for (const [requestId, intent] of Object.entries(state.intents)) {
+      if (
+        (intent.status === "committed" || intent.status === "failed") &&
+        intent.updatedAt < before &&
+        !this.active.has(requestId)
+      ) {
+        delete state.intents[requestId];
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      await this.store.save(state);
+    }
+    return removed;
+  }
+
+  private async update(
+    requestId: string,
+    change: (intent: PaymentIntent) => void
+  ): Promise<void> {
+    const state = await this.loadState();
+    const intent = state.intents[requestId];
+    if (!intent) {
+      throw new Error(`No intent recorded for request ${requestId}`);
+    }
+
+    change(intent);
+    intent.updatedAt = Date.now();
+    await this.store.save(state);
+  }
+
+  private async loadState(): Promise<IntentLedgerState> {
+    if (!this.state) {
+      this.state = (await this.store.load()) ?? { intents: {} };
+    }
+    return this.state;
+  }
+}
@@ -1,126 +1,641 @@
 import {
   Account,
+  AccountAddress,
   AccountAddressInput,
   Aptos,
-  AptosConfig,
-  Network as AptosNetwork,
+  DEFAULT_TXN_TIMEOUT_SEC,
+  generateUserTransactionHash,
+  InputEntryFunctionData,
+  isFeePayerSignature,
+  parseTypeTag,
+  SimpleTransaction,
+  UserTransactionResponse,
+  WriteSetChange,
 } from "@aptos-labs/ts-sdk";
+import { AddressBook } from "./AddressBook";
+import {
+  AmountInput,
+  CoinRegistry,
+  isFungibleAsset,
+  toDisplayUnits,
+} from "./CoinRegistry";
+import { DeploymentRegistry, Network } from "./DeploymentRegistry";
+import { GasSponsor, SponsorReservation } from "./GasSponsor";
+import { IntentLedger, PaymentIntent } from "./IntentLedger";
+import {
+  decodeMoveAbort,
+  InsufficientFundingError,
+  PayMasterAbortError,
+  RecipientValidationError,
+  SpendingPolicyError,
+  toPayMasterError,
+} from "./PayMasterErrors";
+import {
+  AccountSigner,
+  isPayMasterSigner,
+  PayMasterSigner,
+} from "./PayMasterSigner";
+import {
+  CalendarRule,
+  parseCalendarRule,
+  SchedulePlanner,
+  serializeCalendarRule,
+} from "./SchedulePlanner";
+import {
+  SpendingIntent,
+  SpendingPolicyEngine,
+  SpendingReservation,
+} from "./SpendingPolicy";
+import { TransactionQueue, TransactionQueueConfig } from "./TransactionQueue";
+
+export { Network, PAYMASTER_ADDRESS } from "./DeploymentRegistry";
+
+// Move Option as returned by view functions, e.g. { vec: ["3"] } or { vec: [] }
+interface ViewOption<T> {
+  vec: T[];
+}
+
+// What a signed transaction holds against the sponsor and spending policy
+// until it commits, or can no longer commit
+interface TransactionHolds {
+  expiresAt: number; // Unix timestamp (seconds)
+  requestId?: string; // Client request ID it was sent under
+  sponsorship?: { sponsor: GasSponsor; reservation: SponsorReservation };
+  spending?: { engine: SpendingPolicyEngine; reservation: SpendingReservation };
+}
+
+// The transaction that executes a payment, as worked out from its schedule
+interface PlannedExecution {
+  data: InputEntryFunctionData;
+  intent: SpendingIntent; // For the spending policy
+  amount: bigint; // Base units paid by this run
+}
+
+/**
+ * How a schedule-anchored payment catches up on periods missed while it was
+ * not executed: pay each one, pay once for all of them, or pay the period now
+ * due and none before it
+ */
+export type CatchUpPolicy = "pay_all" | "pay_once" | "skip";
+
+// CATCH_UP_* constants of the payment_automation module
+const CATCH_UP_POLICY_CODES: Record<CatchUpPolicy, number> = {
+  pay_all: 1,
+  pay_once: 2,
+  skip: 3,
+};
+
+/**
+ * A scheduled payment as stored by the payment_automation module
+ */
+export interface ScheduledPayment {
+  paymentId: number;
+  recipient: string;
+  amount: string; // Raw on-chain amount (u64)
+  intervalSeconds: number;
+  nextPaymentTime: number; // Unix timestamp (seconds)
+  isActive: boolean;
+  remainingExecutions: number | null; // null when the payment repeats until cancelled
+  endTime: number | null; // Unix timestamp (seconds), null when open-ended
+  calendarRule: CalendarRule | null; // null for interval payments
+  catchUpPolicy: CatchUpPolicy | null; // null when the schedule moves on from each execution
+}
+
+/**
+ * When a finite payment ends; at least one limit is required
+ */
+export interface ScheduleLimits {
+  maxExecutions?: number; // Number of payments to make
+  endTime?: number; // No payment after this Unix timestamp (seconds)
+}
+
+/**
+ * Changes to apply to a scheduled payment; omitted fields are kept
+ */
+export interface PaymentUpdate {
+  recipient?: string; // Address, or a name in the address book
+  amount?: AmountInput;
+  intervalSeconds?: number;
+  isActive?: boolean; // false pauses the payment, true resumes it
+}
+
+/**
+ * Spending caps of an authorized executor
+ */
+export interface DelegationCaps {
+  maxPerPayment: AmountInput;
+  maxPerPeriod: AmountInput; // Total across payments in each period
+  periodSeconds: number;
+  expiresAt?: number; // Unix timestamp (seconds); omit for no expiry
+}
+
+/**
+ * An executor authorized to execute a payer's payments
+ */
+export interface ExecutorDelegation {
+  executor: string;
+  maxPerPayment: string; // Base units
+  maxPerPeriod: string; // Base units
+  periodSeconds: number;
+  expiresAt: number | null; // null when it never expires
+  periodStart: number; // Unix timestamp (seconds) the current period began
+  spentInPeriod: string; // Base units
+}
+
+/**
+ * Options accepted by every transaction method
+ */
+export interface TransactionOptions {
+  simulate?: boolean; // Dry-run the transaction instead of submitting it
+  timeoutSecs?: number; // How long to wait for the transaction to commit
+  requestId?: string; // Client request ID; a retry with the same ID never sends twice
+}
+
+/**
+ * Options accepted by executePayment
+ */
+export interface ExecutePaymentOptions extends TransactionOptions {
+  checkFunding?: boolean; // Fail before submitting if the payment or gas cannot be covered
+  fundingStrategyId?: number; // Yield strategy to withdraw a shortfall from first (implies checkFunding)
+}
+
+/**
+ * An event emitted by a committed transaction
+ */
+export interface TransactionEvent {
+  type: string; // Fully qualified event struct type
+  data: any;
+}
+
+/**
+ * The final outcome of a committed transaction
+ */
+export interface TransactionResult {
+  hash: string;
+  success: boolean; // False if the transaction aborted or ran out of gas
+  vmStatus: string; // "Executed successfully" or the failure reason
+  error?: PayMasterAbortError; // Decoded abort, if the transaction aborted
+  version: string; // Ledger version the transaction committed at
+  gasUsed: number; // Gas units
+  timestamp: number; // Unix timestamp (microseconds)
+  events: TransactionEvent[];
+}
 
-// Define our own Network enum for compatibility
-export enum Network {
-  DEVNET = "devnet",
-  TESTNET = "testnet",
-  MAINNET = "mainnet",
+/**
+ * A single state change a transaction would make
+ */
+export interface WriteSetSummary {
+  type: string; // e.g. write_resource, delete_resource, write_table_item
+  address?: string; // Account owning the resource or module
+  target: string; // Resource type, module name or table handle
 }
 
+/**
+ * The predicted outcome of a simulated transaction
+ */
+export interface SimulationResult {
+  success: boolean;
+  vmStatus: string; // "Executed successfully" or the abort reason
+  error?: PayMasterAbortError; // Decoded abort, if the transaction would abort
+  gasUsed: number; // Gas units
+  gasUnitPrice: number; // Octas per gas unit
+  estimatedFee: number; // Octas
+  writeSet: WriteSetSummary[];
+}
+
+/**
+ * An asset held by an account, under either the Coin or Fungible Asset standard
+ */
+export interface PortfolioAsset {
+  assetType: string; // Coin type, or metadata address for a fungible asset
+  standard: "coin" | "fungible_asset";
+  symbol: string;
+  decimals: number;
+  amount: string; // Base units
+  displayAmount: string; // Display units, e.g. "10.5"
+}
+
+/**
+ * Whether an address can be paid in a coin
+ */
+export interface RecipientCheck {
+  address: string; // Long form
+  exists: boolean; // The account exists on chain
+  canReceive: boolean; // The account can receive the coin
+  problems: string[]; // Why the address cannot be paid; empty if it can
+}
+
+/**
+ * Whether a payment can be executed now, given the funds it is paid from
+ * and the gas the executor pays
+ */
+export interface FundingCheck {
+  source: "balance" | "delegated_funds"; // The payer's balance, or the funds set aside for executors
+  available: string; // Base units in the source
+  amount: string; // Base units the payment takes now
+  estimatedGasFee: string; // Octas paid by the executor (0 when sponsored)
+  required: string; // Base units needed in the source: the amount, plus gas when both are APT from the payer's balance
+  shortfall: string; // Base units missing from the source
+  gasShortfall: string; // Octas the executor is missing for gas, when paid separately
+  sufficient: boolean;
+}
+
+/**
+ * The bounds of one risk type as stored by the risk_manager module: a value
+ * below medium is medium risk, and so on. Liquidity and collateral are in
+ * basis points, liquidation in seconds.
+ */
+export interface RiskThreshold {
+  medium: number;
+  high: number;
+  critical: number;
+}
+
+/**
+ * Risk types of the risk_manager module
+ */
+export type RiskType = "liquidity" | "collateral" | "liquidation";
+
+// RISK_TYPE_* constants of the risk_manager module
+export const RISK_TYPE_CODES: Record<RiskType, number> = {
+  liquidity: 1,
+  collateral: 2,
+  liquidation: 3,
+};
+
+// Transaction methods return the committed result, or a simulation result when simulating
+export type TransactionOutcome<O extends TransactionOptions> = O extends {
+  simulate: true;
+}
+  ? SimulationResult
+  : TransactionResult;
+
 export class PayMasterAgent {
-  private account: Account;
+  private signer: PayMasterSigner;
   private client: Aptos;
   private baseAddress: string;
+  private network: Network;
+  private registry: DeploymentRegistry;
+  private coins: CoinRegistry;
+  private planner = new SchedulePlanner();
+  private queue: TransactionQueue | null = null;
+  private sponsor: GasSponsor | null = null;
+  private spending: SpendingPolicyEngine | null = null;
+  private addressBook: AddressBook | null = null;
+  private intents = new IntentLedger();
+  private submissions = new WeakMap<InputEntryFunctionData, string>(); // Request IDs of payloads being sent
+  private spendingHolds = new WeakMap<
+    InputEntryFunctionData,
+    { engine: SpendingPolicyEngine; reservation: SpendingReservation }
+  >(); // Spending reservations of payloads not yet signed
+  private holds = new Map<string, TransactionHolds>(); // Signed transactions awaiting commit, keyed by hash
+
+  constructor(
+    signer: PayMasterSigner | Account,
+    network: Network = Network.TESTNET,
+    registry: DeploymentRegistry = new DeploymentRegistry()
+  ) {
+    // A raw Account is wrapped so that the agent only ever asks for signatures
+    this.signer = isPayMasterSigner(signer)
+      ? signer
+      : new AccountSigner(signer);
+    this.network = network;
+    this.registry = registry;
+
+    // Initialize Aptos client for the network's deployment
+    this.client = registry.createClient(network);
+    this.baseAddress = registry.get(network).address;
+    this.coins = new CoinRegistry(this.client);
+  }
+
+  /**
+   * Get the address of the account this agent acts for
+   */
+  getAccountAddress(): string {
+    return this.signer.accountAddress.toString();
+  }
+
+  /**
+   * Get the address the paymaster package is published at on this network
+   */
+  getModuleAddress(): string {
+    return this.baseAddress;
+  }
+
+  /**
+   * Get the coin registry used to resolve decimals and symbols
+   */
+  getCoinRegistry(): CoinRegistry {
+    return this.coins;
+  }
+
+  /**
+   * Get the planner used to work out when calendar payments fall due
+   */
+  getSchedulePlanner(): SchedulePlanner {
+    return this.planner;
+  }
+
+  /**
+   * Send transactions through a queue that assigns sequence numbers locally,
+   * so that concurrent calls on this agent no longer collide
+   * @param config Queue settings, e.g. the maximum in-flight transactions
+   * @returns The queue, e.g. to read its stats
+   */
+  enableTransactionQueue(config?: TransactionQueueConfig): TransactionQueue {
+    if (!this.queue) {
+      this.queue = new TransactionQueue(
+        this.client,
+        this.signer.accountAddress,
+        (data, accountSequenceNumber) =>
+          this.signAndSubmit(data, accountSequenceNumber),
+        config
+      );
+    }
+    return this.queue;
+  }
+
+  /**
+   * Get the transaction queue, if enabled
+   */
+  getTransactionQueue(): TransactionQueue | null {
+    return this.queue;
+  }
+
+  /**
+   * Let a sponsor pay the gas of the transactions its policy covers.
+   * Other transactions are still paid by the sender.
+   * @param sponsor The gas sponsor, or null to stop sponsorship
+   */
+  setGasSponsor(sponsor: GasSponsor | null): void {
+    this.sponsor = sponsor;
+  }
+
+  /**
+   * Get the gas sponsor, if any
+   */
+  getGasSponsor(): GasSponsor | null {
+    return this.sponsor;
+  }
+
+  /**
+   * Check transfers and payment schedules against a spending policy before
+   * signing them
+   * @param engine The policy engine, or null to sign without checks
+   */
+  setSpendingPolicy(engine: SpendingPolicyEngine | null): void {
+    this.spending = engine;
+  }
+
+  /**
+   * Get the spending policy engine, if any
+   */
+  getSpendingPolicy(): SpendingPolicyEngine | null {
+    return this.spending;
+  }
+
+  /**
+   * Let recipients be given by their name in an address book
+   * @param book The address book, or null to accept addresses only
+   */
+  setAddressBook(book: AddressBook | null): void {
+    this.addressBook = book;
+  }
 
-  constructor(account: Account, network: Network = Network.TESTNET) {
-    this.account = account;
+  /**
+   * Get the address book, if any
+   */
+  getAddressBook(): AddressBook | null {
+    return this.addressBook;
+  }
 
-    // Map our Network enum to AptosNetwork
-    const aptosNetwork =
-      network === Network.MAINNET
-        ? AptosNetwork.MAINNET
-        : network === Network.TESTNET
-        ? AptosNetwork.TESTNET
-        : AptosNetwork.DEVNET;
+  /**
+   * Record transactions sent with a request ID in a ledger, e.g. one backed
+   * by a FileStateStore so that retries stay safe across restarts
+   * @param ledger The intent ledger
+   */
+  setIntentLedger(ledger: IntentLedger): void {
+    this.intents = ledger;
+  }
 
-    // Initialize Aptos client
-    const config = new AptosConfig({ network: aptosNetwork });
-    this.client = new Aptos(config);
+  /**
+   * Get the intent ledger, e.g. to list requests whose outcome is unknown
+   */
+  getIntentLedger(): IntentLedger {
+    return this.intents;
+  }
 
-    this.baseAddress =
-      "0x598a188bf6a32b61e7508acc4b2fc672ae7d953aba5ccb46976e6bee4814efbf";
+  /**
+   * Check that the paymaster modules are published at the configured address.
+   * Call this once at startup before sending any transaction.
+   */
+  async verifyDeployment(): Promise<void> {
+    await this.registry.verifyDeployment(this.network, this.client);
   }
 
   /**
    * Initialize payment schedules for the current account
    * @param coinType The type of coin to use for payments
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
    */
-  async initializePaymentSchedules(
-    coinType: string = "0x1::aptos_coin::AptosCoin"
-  ): Promise<string> {
+  async initializePaymentSchedules<
+    O extends TransactionOptions = TransactionOptions
+  >(
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
     try {
-      // 1. Build the transaction
-      const transaction = await this.client.transaction.build.simple({
-        sender: this.account.accountAddress,
-        data: {
+      return await this.submitTransaction(
+        {
           function: `${this.baseAddress}::payment_automation::initialize_payment_schedules`,
           typeArguments: [coinType],
           functionArguments: [],
         },
-      });
-
-      // 2. Sign the transaction
-      const senderAuthenticator = this.client.transaction.sign({
-        signer: this.account,
-        transaction,
-      });
-
-      // 3. Submit the transaction
-      const submittedTransaction = await this.client.transaction.submit.simple({
-        transaction,
-        senderAuthenticator,
-      });
-
-      return submittedTransaction.hash;
-    } catch (error: any) {
-      throw new Error(
-        `Failed to initialize payment schedules: ${error.message}`
+        options
       );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to initialize payment schedules");
     }
   }
 
   /**
    * Create a scheduled payment
-   * @param recipient Recipient address
-   * @param amount Amount to send
+   * @param recipient Recipient address, or a name in the address book
+   * @param amount Amount to send, in base units or with a symbol (e.g. "10 APT")
    * @param intervalSeconds Interval between payments in seconds
    * @param startTime Optional start time (Unix timestamp)
    * @param coinType The type of coin to use
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
    */
-  async createScheduledPayment(
+  async createScheduledPayment<
+    O extends TransactionOptions = TransactionOptions
+  >(
     recipient: string,
-    amount: string,
+    amount: AmountInput,
     intervalSeconds: number,
     startTime: number = 0,
-    coinType: string = "0x1::aptos_coin::AptosCoin"
-  ): Promise<string> {
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
     try {
-      // 1. Build the transaction
-      const transaction = await this.client.transaction.build.simple({
-        sender: this.account.accountAddress,
-        data: {
+      const address = await this.resolveRecipient(recipient, coinType);
+      const baseAmount = await this.coins.parseAmount(amount, coinType);
+
+      return await this.submitTransaction(
+        {
           function: `${this.baseAddress}::payment_automation::create_scheduled_payment`,
           typeArguments: [coinType],
           functionArguments: [
-            recipient,
-            amount,
+            address,
+            baseAmount,
             intervalSeconds.toString(),
             startTime.toString(),
           ],
         },
-      });
+        options,
+        { kind: "schedule", recipient: address, amount: baseAmount, coinType }
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to create scheduled payment");
+    }
+  }
 
-      // 2. Sign the transaction
-      const senderAuthenticator = this.client.transaction.sign({
-        signer: this.account,
-        transaction,
-      });
+  /**
+   * Create a scheduled payment that ends after a number of payments or at an
+   * end date, then becomes inactive
+   * @param recipient Recipient address, or a name in the address book
+   * @param amount Amount to send, in base units or with a symbol (e.g. "10 APT")
+   * @param intervalSeconds Interval between payments in seconds
+   * @param limits When the payment ends
+   * @param startTime Optional start time (Unix timestamp)
+   * @param coinType The type of coin to use
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async createFiniteScheduledPayment<
+    O extends TransactionOptions = TransactionOptions
+  >(
+    recipient: string,
+    amount: AmountInput,
+    intervalSeconds: number,
+    limits: ScheduleLimits,
+    startTime: number = 0,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      if (!limits.maxExecutions && !limits.endTime) {
+        throw new Error("A finite payment needs maxExecutions or endTime");
+      }
 
-      // 3. Submit the transaction
-      const submittedTransaction = await this.client.transaction.submit.simple({
-        transaction,
-        senderAuthenticator,
-      });
+      const address = await this.resolveRecipient(recipient, coinType);
+      const baseAmount = await this.coins.parseAmount(amount, coinType);
+
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::payment_automation::create_finite_scheduled_payment`,
+          typeArguments: [coinType],
+          functionArguments: [
+            address,
+            baseAmount,
+            intervalSeconds.toString(),
+            startTime.toString(),
+            (limits.maxExecutions ?? 0).toString(),
+            (limits.endTime ?? 0).toString(),
+          ],
+        },
+        options,
+        { kind: "schedule", recipient: address, amount: baseAmount, coinType }
+      );
+    } catch (error: any) {
+      throw toPayMasterError(
+        error,
+        "Failed to create finite scheduled payment"
+      );
+    }
+  }
+
+  /**
+   * Create a payment that executes once, then becomes inactive
+   * @param recipient Recipient address, or a name in the address book
+   * @param amount Amount to send, in base units or with a symbol (e.g. "10 APT")
+   * @param executeAt When the payment is due (Unix timestamp, 0 for now)
+   * @param coinType The type of coin to use
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async createOneTimePayment<O extends TransactionOptions = TransactionOptions>(
+    recipient: string,
+    amount: AmountInput,
+    executeAt: number = 0,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      const address = await this.resolveRecipient(recipient, coinType);
+      const baseAmount = await this.coins.parseAmount(amount, coinType);
+
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::payment_automation::create_one_time_payment`,
+          typeArguments: [coinType],
+          functionArguments: [address, baseAmount, executeAt.toString()],
+        },
+        options,
+        { kind: "schedule", recipient: address, amount: baseAmount, coinType }
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to create one-time payment");
+    }
+  }
+
+  /**
+   * Create a payment that follows a calendar rule, e.g. monthly on the last
+   * business day or a cron expression in a time zone
+   * @param recipient Recipient address, or a name in the address book
+   * @param amount Amount to send, in base units or with a symbol (e.g. "10 APT")
+   * @param rule When the payment falls due
+   * @param startTime Earliest first payment (Unix timestamp, 0 for now)
+   * @param coinType The type of coin to use
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async createCalendarPayment<
+    O extends TransactionOptions = TransactionOptions
+  >(
+    recipient: string,
+    amount: AmountInput,
+    rule: CalendarRule,
+    startTime: number = 0,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      const address = await this.resolveRecipient(recipient, coinType);
+      const baseAmount = await this.coins.parseAmount(amount, coinType);
+      const encodedRule = serializeCalendarRule(rule);
+      const now = Math.floor(Date.now() / 1000);
+      const firstPaymentTime = this.planner.nextOccurrence(
+        rule,
+        Math.max(now, startTime - 1)
+      );
+      const period = this.planner.period(rule, firstPaymentTime);
 
-      return submittedTransaction.hash;
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::payment_automation::create_calendar_payment`,
+          typeArguments: [coinType],
+          functionArguments: [
+            address,
+            baseAmount,
+            firstPaymentTime.toString(),
+            encodedRule,
+            period.minSeconds.toString(),
+            period.maxSeconds.toString(),
+          ],
+        },
+        options,
+        { kind: "schedule", recipient: address, amount: baseAmount, coinType }
+      );
     } catch (error: any) {
-      throw new Error(`Failed to create scheduled payment: ${error.message}`);
+      throw toPayMasterError(error, "Failed to create calendar payment");
     }
   }
 
@@ -128,384 +643,1816 @@ export class PayMasterAgent {
    * Cancel a scheduled payment
    * @param paymentId The ID of the payment to cancel
    * @param coinType The type of coin used for the payment
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
    */
-  async cancelScheduledPayment(
+  async cancelScheduledPayment<
+    O extends TransactionOptions = TransactionOptions
+  >(
     paymentId: number,
-    coinType: string = "0x1::aptos_coin::AptosCoin"
-  ): Promise<string> {
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
     try {
-      // 1. Build the transaction
-      const transaction = await this.client.transaction.build.simple({
-        sender: this.account.accountAddress,
-        data: {
+      return await this.submitTransaction(
+        {
           function: `${this.baseAddress}::payment_automation::cancel_scheduled_payment`,
           typeArguments: [coinType],
           functionArguments: [paymentId.toString()],
         },
-      });
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to cancel scheduled payment");
+    }
+  }
 
-      // 2. Sign the transaction
-      const senderAuthenticator = this.client.transaction.sign({
-        signer: this.account,
-        transaction,
-      });
+  /**
+   * Update a scheduled payment in place, keeping its ID and event history
+   * @param paymentId The ID of the payment to update
+   * @param changes The fields to change; omitted fields are kept
+   * @param coinType The type of coin used for the payment
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async updateScheduledPayment<
+    O extends TransactionOptions = TransactionOptions
+  >(
+    paymentId: number,
+    changes: PaymentUpdate,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      const recipient = changes.recipient
+        ? await this.resolveRecipient(changes.recipient, coinType)
+        : null;
+      const baseAmount =
+        changes.amount === undefined
+          ? null
+          : await this.coins.parseAmount(changes.amount, coinType);
 
-      // 3. Submit the transaction
-      const submittedTransaction = await this.client.transaction.submit.simple({
-        transaction,
-        senderAuthenticator,
+      // A new recipient or amount is checked as the payment will then be
+      let intent: SpendingIntent | undefined;
+      if (this.spending && (recipient || baseAmount !== null)) {
+        const current = await this.getPayment(
+          paymentId,
+          this.signer.accountAddress,
+          coinType
+        );
+        intent = {
+          kind: "schedule",
+          recipient: recipient ?? current.recipient,
+          amount: baseAmount ?? current.amount,
+          coinType,
+        };
+      }
+
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::payment_automation::update_scheduled_payment`,
+          typeArguments: [coinType],
+          functionArguments: [
+            paymentId.toString(),
+            recipient,
+            baseAmount,
+            changes.intervalSeconds?.toString() ?? null,
+            changes.isActive ?? null,
+          ],
+        },
+        options,
+        intent
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to update scheduled payment");
+    }
+  }
+
+  /**
+   * Pause a scheduled payment until it is resumed
+   * @param paymentId The ID of the payment to pause
+   * @param coinType The type of coin used for the payment
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async pauseScheduledPayment<
+    O extends TransactionOptions = TransactionOptions
+  >(
+    paymentId: number,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    return this.updateScheduledPayment(
+      paymentId,
+      { isActive: false },
+      coinType,
+      options
+    );
+  }
+
+  /**
+   * Resume a paused scheduled payment. Its next payment time moves later by
+   * the time it was paused; cancelled payments cannot be resumed.
+   * @param paymentId The ID of the payment to resume
+   * @param coinType The type of coin used for the payment
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async resumeScheduledPayment<
+    O extends TransactionOptions = TransactionOptions
+  >(
+    paymentId: number,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    return this.updateScheduledPayment(
+      paymentId,
+      { isActive: true },
+      coinType,
+      options
+    );
+  }
+
+  /**
+   * Anchor a payment to its schedule, so that late executions no longer push
+   * later payments back, and choose how it catches up on missed periods
+   * @param paymentId The ID of the payment
+   * @param policy Pay every missed period, pay once for all of them, or pay
+   * only the period now due
+   * @param coinType The type of coin used for the payment
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async setCatchUpPolicy<O extends TransactionOptions = TransactionOptions>(
+    paymentId: number,
+    policy: CatchUpPolicy,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::payment_automation::set_catch_up_policy`,
+          typeArguments: [coinType],
+          functionArguments: [
+            paymentId.toString(),
+            CATCH_UP_POLICY_CODES[policy],
+          ],
+        },
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to set catch-up policy");
+    }
+  }
+
+  /**
+   * Execute a pending payment, as its payer or as an executor it has authorized
+   * @param payer The address of the payer
+   * @param paymentId The ID of the payment to execute
+   * @param coinType The type of coin used for the payment
+   * @param options Transaction options, e.g. { checkFunding: true } to fail
+   * before spending gas when the payment cannot be covered
+   */
+  async executePayment<O extends ExecutePaymentOptions = ExecutePaymentOptions>(
+    payer: string,
+    paymentId: number,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      const execution = await this.planExecution(payer, paymentId, coinType);
+
+      const fundingStrategyId = options?.fundingStrategyId;
+      if (
+        !options?.simulate &&
+        (options?.checkFunding || fundingStrategyId !== undefined)
+      ) {
+        let funding = await this.checkExecutionFunding(
+          execution,
+          payer,
+          coinType
+        );
+
+        // Only the payer's own strategies can top up its balance
+        if (
+          funding.shortfall !== "0" &&
+          fundingStrategyId !== undefined &&
+          funding.source === "balance"
+        ) {
+          // Sent under its own request ID, so a retried payment never
+          // withdraws twice
+          const withdrawal = await this.withdrawFunds(
+            fundingStrategyId,
+            funding.shortfall,
+            coinType,
+            {
+              timeoutSecs: options?.timeoutSecs,
+              requestId: options?.requestId && `${options.requestId}:withdraw`,
+            }
+          );
+          if (!withdrawal.success) {
+            const reason = withdrawal.error?.message ?? withdrawal.vmStatus;
+            throw new InsufficientFundingError(
+              `${describeShortfall(
+                funding
+              )}; withdrawing from strategy ${fundingStrategyId} failed: ${reason}`,
+              funding.shortfall,
+              funding.gasShortfall
+            );
+          }
+          funding = await this.checkExecutionFunding(
+            execution,
+            payer,
+            coinType
+          );
+        }
+
+        if (!funding.sufficient) {
+          throw new InsufficientFundingError(
+            describeShortfall(funding),
+            funding.shortfall,
+            funding.gasShortfall
+          );
+        }
+      }
+
+      return await this.submitTransaction(
+        execution.data,
+        options,
+        execution.intent
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to execute payment");
+    }
+  }
+
+  /**
+   * Check whether a payment can be executed now: its amount and the
+   * estimated gas against the funds they come from
+   * @param payer The address of the payer
+   * @param paymentId The ID of the payment
+   * @param coinType The type of coin used for the payment
+   */
+  async checkFunding(
+    payer: string,
+    paymentId: number,
+    coinType: string = "0x1::aptos_coin::AptosCoin"
+  ): Promise<FundingCheck> {
+    try {
+      const execution = await this.planExecution(payer, paymentId, coinType);
+      return await this.checkExecutionFunding(execution, payer, coinType);
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to check funding");
+    }
+  }
+
+  /**
+   * Work out the transaction that executes a payment now
+   * @param payer The address of the payer
+   * @param paymentId The ID of the payment
+   * @param coinType The type of coin used for the payment
+   */
+  private async planExecution(
+    payer: string,
+    paymentId: number,
+    coinType: string
+  ): Promise<PlannedExecution> {
+    const payment = await this.getPayment(paymentId, payer, coinType);
+    const now = Math.floor(Date.now() / 1000);
+    const amount = BigInt(payment.amount);
+    const intent: SpendingIntent = {
+      kind: "transfer",
+      recipient: payment.recipient,
+      amount: payment.amount,
+      coinType,
+    };
+
+    // Calendar payments are handed their next due time from the planner
+    if (payment.calendarRule) {
+      const following = this.planner.nextOccurrence(
+        payment.calendarRule,
+        payment.nextPaymentTime
+      );
+      const upcoming = this.planner.nextOccurrence(
+        payment.calendarRule,
+        Math.max(now, payment.nextPaymentTime)
+      );
+      const missed = following <= now;
+
+      if (missed && payment.catchUpPolicy === "skip") {
+        return {
+          data: {
+            function: `${this.baseAddress}::payment_automation::skip_calendar_payment`,
+            typeArguments: [coinType],
+            functionArguments: [
+              payer,
+              paymentId.toString(),
+              upcoming.toString(),
+            ],
+          },
+          intent,
+          amount,
+        };
+      }
+
+      // Paying every missed period leaves the payment due until caught up
+      const nextPaymentTime =
+        missed && payment.catchUpPolicy === "pay_all" ? following : upcoming;
+
+      return {
+        data: {
+          function: `${this.baseAddress}::payment_automation::execute_calendar_payment`,
+          typeArguments: [coinType],
+          functionArguments: [
+            payer,
+            paymentId.toString(),
+            nextPaymentTime.toString(),
+          ],
+        },
+        intent,
+        amount,
+      };
+    }
+
+    return {
+      data: {
+        function: `${this.baseAddress}::payment_automation::execute_payment`,
+        typeArguments: [coinType],
+        functionArguments: [payer, paymentId.toString()],
+      },
+      intent,
+      amount,
+    };
+  }
+
+  /**
+   * Compare a planned execution against the funds it is paid from
+   * @param execution The planned execution
+   * @param payer The address of the payer
+   * @param coinType The type of coin used for the payment
+   */
+  private async checkExecutionFunding(
+    execution: PlannedExecution,
+    payer: string,
+    coinType: string
+  ): Promise<FundingCheck> {
+    // Executors other than the payer pay from the funds set aside for them
+    const source = AccountAddress.from(payer).equals(this.signer.accountAddress)
+      ? "balance"
+      : "delegated_funds";
+    const sponsor = this.sponsorFor(execution.data);
+
+    const [available, simulation] = await Promise.all([
+      source === "balance"
+        ? this.getBalance(coinType, payer)
+        : this.getDelegatedFunds(payer, coinType),
+      this.buildTransaction(execution.data, sponsor).then((transaction) =>
+        this.simulateTransaction(transaction, sponsor)
+      ),
+    ]);
+
+    // An aborted simulation stops early and underestimates the gas
+    const gasFee = sponsor
+      ? BigInt(0)
+      : BigInt(simulation.estimatedFee) * BigInt(simulation.success ? 1 : 2);
+
+    // Gas comes out of the same balance when paying APT from it
+    const sharesBalance =
+      source === "balance" &&
+      parseTypeTag(coinType).toString() === "0x1::aptos_coin::AptosCoin";
+    const required = execution.amount + (sharesBalance ? gasFee : BigInt(0));
+    const shortfall = maxBigInt(required - BigInt(available), BigInt(0));
+
+    let gasShortfall = BigInt(0);
+    if (!sharesBalance && gasFee > BigInt(0)) {
+      const gasBalance = BigInt(await this.getBalance());
+      gasShortfall = maxBigInt(gasFee - gasBalance, BigInt(0));
+    }
+
+    return {
+      source,
+      available,
+      amount: execution.amount.toString(),
+      estimatedGasFee: gasFee.toString(),
+      required: required.toString(),
+      shortfall: shortfall.toString(),
+      gasShortfall: gasShortfall.toString(),
+      sufficient: shortfall === BigInt(0) && gasShortfall === BigInt(0),
+    };
+  }
+
+  /**
+   * Authorize an executor, e.g. an automation agent, to execute this
+   * account's payments from the funds set aside with depositDelegatedFunds.
+   * Granting again replaces the executor's caps.
+   * @param executor The executor's address
+   * @param caps Per-payment and per-period spending caps, and the expiry
+   * @param coinType The type of coin the executor may pay in
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async grantExecutor<O extends TransactionOptions = TransactionOptions>(
+    executor: string,
+    caps: DelegationCaps,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      const [maxPerPayment, maxPerPeriod] = await Promise.all([
+        this.coins.parseAmount(caps.maxPerPayment, coinType),
+        this.coins.parseAmount(caps.maxPerPeriod, coinType),
+      ]);
+
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::payment_automation::grant_executor`,
+          typeArguments: [coinType],
+          functionArguments: [
+            executor,
+            maxPerPayment,
+            maxPerPeriod,
+            caps.periodSeconds.toString(),
+            (caps.expiresAt ?? 0).toString(),
+          ],
+        },
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to grant executor");
+    }
+  }
+
+  /**
+   * Withdraw an executor's authorization
+   * @param executor The executor's address
+   * @param coinType The type of coin the executor was authorized for
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async revokeExecutor<O extends TransactionOptions = TransactionOptions>(
+    executor: string,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::payment_automation::revoke_executor`,
+          typeArguments: [coinType],
+          functionArguments: [executor],
+        },
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to revoke executor");
+    }
+  }
+
+  /**
+   * List the executors a payer has authorized, with their caps and spending
+   * @param payer The address of the payer (defaults to the current account)
+   * @param coinType The type of coin the executors pay in
+   */
+  async listExecutors(
+    payer: AccountAddressInput = this.signer.accountAddress,
+    coinType: string = "0x1::aptos_coin::AptosCoin"
+  ): Promise<ExecutorDelegation[]> {
+    try {
+      const [executors] = await this.client.view<[string[]]>({
+        payload: {
+          function: `${this.baseAddress}::payment_automation::get_executors`,
+          typeArguments: [coinType],
+          functionArguments: [payer],
+        },
+      });
+
+      return await Promise.all(
+        executors.map(async (executor) => {
+          const [
+            maxPerPayment,
+            maxPerPeriod,
+            periodSeconds,
+            expiresAt,
+            periodStart,
+            spentInPeriod,
+          ] = await this.client.view<
+            [string, string, string, string, string, string]
+          >({
+            payload: {
+              function: `${this.baseAddress}::payment_automation::get_delegation`,
+              typeArguments: [coinType],
+              functionArguments: [payer, executor],
+            },
+          });
+
+          return {
+            executor,
+            maxPerPayment,
+            maxPerPeriod,
+            periodSeconds: Number(periodSeconds),
+            expiresAt: expiresAt === "0" ? null : Number(expiresAt),
+            periodStart: Number(periodStart),
+            spentInPeriod,
+          };
+        })
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to list executors");
+    }
+  }
+
+  /**
+   * Set funds aside for authorized executors to pay from
+   * @param amount Amount to set aside, in base units or with a symbol (e.g. "10 APT")
+   * @param coinType The type of coin to use
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async depositDelegatedFunds<
+    O extends TransactionOptions = TransactionOptions
+  >(
+    amount: AmountInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      const baseAmount = await this.coins.parseAmount(amount, coinType);
+
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::payment_automation::deposit_delegated_funds`,
+          typeArguments: [coinType],
+          functionArguments: [baseAmount],
+        },
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to deposit delegated funds");
+    }
+  }
+
+  /**
+   * Take back funds set aside for authorized executors
+   * @param amount Amount to take back, in base units or with a symbol (e.g. "10 APT")
+   * @param coinType The type of coin to use
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async withdrawDelegatedFunds<
+    O extends TransactionOptions = TransactionOptions
+  >(
+    amount: AmountInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      const baseAmount = await this.coins.parseAmount(amount, coinType);
+
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::payment_automation::withdraw_delegated_funds`,
+          typeArguments: [coinType],
+          functionArguments: [baseAmount],
+        },
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to withdraw delegated funds");
+    }
+  }
+
+  /**
+   * Get the funds a payer has set aside for authorized executors
+   * @param payer The address of the payer (defaults to the current account)
+   * @param coinType The type of coin
+   * @returns Base units
+   */
+  async getDelegatedFunds(
+    payer: AccountAddressInput = this.signer.accountAddress,
+    coinType: string = "0x1::aptos_coin::AptosCoin"
+  ): Promise<string> {
+    try {
+      const [funds] = await this.client.view<[string]>({
+        payload: {
+          function: `${this.baseAddress}::payment_automation::get_delegated_funds`,
+          typeArguments: [coinType],
+          functionArguments: [payer],
+        },
+      });
+
+      return funds;
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to get delegated funds");
+    }
+  }
+
+  /**
+   * Get the details of a scheduled payment
+   * @param paymentId The ID of the payment
+   * @param payer The address of the payer (defaults to the current account)
+   * @param coinType The type of coin used for the payment
+   */
+  async getPayment(
+    paymentId: number,
+    payer: AccountAddressInput = this.signer.accountAddress,
+    coinType: string = "0x1::aptos_coin::AptosCoin"
+  ): Promise<ScheduledPayment> {
+    try {
+      const payload = (name: string) => ({
+        function: `${this.baseAddress}::payment_automation::${name}` as const,
+        typeArguments: [coinType],
+        functionArguments: [payer, paymentId.toString()],
+      });
+
+      const [
+        [recipient, amount, intervalSeconds, nextPaymentTime, isActive],
+        [remainingExecutions, endTime],
+        [calendarRule],
+        [catchUpPolicy],
+      ] = await Promise.all([
+        this.client.view<[string, string, string, string, boolean]>({
+          payload: payload("get_payment_details"),
+        }),
+        this.client.view<[ViewOption<string>, ViewOption<string>]>({
+          payload: payload("get_payment_limits"),
+        }),
+        this.client.view<[ViewOption<string>]>({
+          payload: payload("get_payment_calendar"),
+        }),
+        this.client.view<[ViewOption<number>]>({
+          payload: payload("get_payment_catch_up_policy"),
+        }),
+      ]);
+
+      return {
+        paymentId,
+        recipient,
+        amount,
+        intervalSeconds: Number(intervalSeconds),
+        nextPaymentTime: Number(nextPaymentTime),
+        isActive,
+        remainingExecutions: fromMoveOption(remainingExecutions),
+        endTime: fromMoveOption(endTime),
+        calendarRule:
+          calendarRule.vec.length > 0
+            ? parseCalendarRule(calendarRule.vec[0])
+            : null,
+        catchUpPolicy: toCatchUpPolicy(catchUpPolicy),
+      };
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to get payment");
+    }
+  }
+
+  /**
+   * List every scheduled payment of a payer, including cancelled ones
+   * @param payer The address of the payer (defaults to the current account)
+   * @param coinType The type of coin used for the payments
+   */
+  async listPayments(
+    payer: AccountAddressInput = this.signer.accountAddress,
+    coinType: string = "0x1::aptos_coin::AptosCoin"
+  ): Promise<ScheduledPayment[]> {
+    let nextPaymentId: number;
+    try {
+      const schedules = await this.client.getAccountResource<{
+        next_payment_id: string;
+      }>({
+        accountAddress: payer,
+        resourceType: `${this.baseAddress}::payment_automation::PaymentSchedules<${coinType}>`,
+      });
+      nextPaymentId = Number(schedules.next_payment_id);
+    } catch (error: any) {
+      // Accounts that never scheduled a payment have no PaymentSchedules resource
+      if (error.status === 404) {
+        return [];
+      }
+      throw toPayMasterError(error, "Failed to list payments");
+    }
+
+    // Payment IDs are assigned sequentially starting at 0
+    const payments: ScheduledPayment[] = [];
+    for (let paymentId = 0; paymentId < nextPaymentId; paymentId++) {
+      payments.push(await this.getPayment(paymentId, payer, coinType));
+    }
+
+    return payments;
+  }
+
+  /**
+   * Check if a scheduled payment is due for execution
+   * @param paymentId The ID of the payment
+   * @param payer The address of the payer (defaults to the current account)
+   * @param coinType The type of coin used for the payment
+   */
+  async isPaymentDue(
+    paymentId: number,
+    payer: AccountAddressInput = this.signer.accountAddress,
+    coinType: string = "0x1::aptos_coin::AptosCoin"
+  ): Promise<boolean> {
+    try {
+      const [isDue] = await this.client.view<[boolean]>({
+        payload: {
+          function: `${this.baseAddress}::payment_automation::is_payment_due`,
+          typeArguments: [coinType],
+          functionArguments: [payer, paymentId.toString()],
+        },
+      });
+
+      return isDue;
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to check if payment is due");
+    }
+  }
+
+  /**
+   * Initialize yield strategies for the current account
+   * @param coinType The type of coin to use
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async initializeYieldStrategies<
+    O extends TransactionOptions = TransactionOptions
+  >(
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::yield_optimizer::initialize_yield_strategies`,
+          typeArguments: [coinType],
+          functionArguments: [],
+        },
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to initialize yield strategies");
+    }
+  }
+
+  /**
+   * Create a yield strategy
+   * @param protocolId Protocol ID (1=Thala, 2=Aries, 3=Momentum)
+   * @param targetPercentage Percentage of idle funds to allocate (basis points, 10000 = 100%)
+   * @param minIdleAmount Minimum amount of idle funds to trigger allocation, in base units or with a symbol
+   * @param coinType The type of coin to use
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async createYieldStrategy<O extends TransactionOptions = TransactionOptions>(
+    protocolId: number,
+    targetPercentage: number,
+    minIdleAmount: AmountInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      const baseMinIdleAmount = await this.coins.parseAmount(
+        minIdleAmount,
+        coinType
+      );
+
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::yield_optimizer::create_yield_strategy`,
+          typeArguments: [coinType],
+          functionArguments: [
+            protocolId.toString(),
+            targetPercentage.toString(),
+            baseMinIdleAmount,
+          ],
+        },
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to create yield strategy");
+    }
+  }
+
+  /**
+   * Allocate idle funds according to a strategy
+   * @param strategyId The ID of the strategy to use
+   * @param amount Amount to allocate, in base units or with a symbol (e.g. "10 APT")
+   * @param coinType The type of coin to use
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async allocateIdleFunds<O extends TransactionOptions = TransactionOptions>(
+    strategyId: number,
+    amount: AmountInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      const baseAmount = await this.coins.parseAmount(amount, coinType);
+
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::yield_optimizer::allocate_idle_funds`,
+          typeArguments: [coinType],
+          functionArguments: [strategyId.toString(), baseAmount],
+        },
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to allocate idle funds");
+    }
+  }
+
+  /**
+   * Withdraw funds from a yield strategy back to the account
+   * @param strategyId The ID of the strategy to withdraw from
+   * @param amount Amount to withdraw, in base units or with a symbol (e.g. "10 APT")
+   * @param coinType The type of coin to use
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async withdrawFunds<O extends TransactionOptions = TransactionOptions>(
+    strategyId: number,
+    amount: AmountInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      const baseAmount = await this.coins.parseAmount(amount, coinType);
+
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::yield_optimizer::withdraw_funds`,
+          typeArguments: [coinType],
+          functionArguments: [strategyId.toString(), baseAmount],
+        },
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to withdraw funds");
+    }
+  }
+
+  /**
+   * Initialize risk profile for the current account
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async initializeRiskProfile<
+    O extends TransactionOptions = TransactionOptions
+  >(options?: O): Promise<TransactionOutcome<O>> {
+    try {
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::risk_manager::initialize_risk_profile`,
+          typeArguments: [],
+          functionArguments: [],
+        },
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to initialize risk profile");
+    }
+  }
+
+  /**
+   * Update risk thresholds
+   * @param riskType Risk type (1=Liquidity, 2=Collateral, 3=Liquidation)
+   * @param mediumThreshold Medium risk threshold
+   * @param highThreshold High risk threshold
+   * @param criticalThreshold Critical risk threshold
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async updateRiskThreshold<O extends TransactionOptions = TransactionOptions>(
+    riskType: number,
+    mediumThreshold: number,
+    highThreshold: number,
+    criticalThreshold: number,
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      // The module aborts with E_THRESHOLD_INVALID; fail before paying gas
+      if (!Object.values(RISK_TYPE_CODES).includes(riskType)) {
+        throw new Error(`Unknown risk type: ${riskType}`);
+      }
+      const bounds = [mediumThreshold, highThreshold, criticalThreshold];
+      if (!bounds.every((bound) => Number.isInteger(bound) && bound >= 0)) {
+        throw new Error(
+          `Risk thresholds must be whole, non-negative numbers (got ${bounds.join(
+            ", "
+          )})`
+        );
+      }
+      checkThresholdOrder({
+        medium: mediumThreshold,
+        high: highThreshold,
+        critical: criticalThreshold,
+      });
+
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::risk_manager::update_risk_threshold`,
+          typeArguments: [],
+          functionArguments: [
+            riskType.toString(),
+            mediumThreshold.toString(),
+            highThreshold.toString(),
+            criticalThreshold.toString(),
+          ],
+        },
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to update risk threshold");
+    }
+  }
+
+  /**
+   * Get the thresholds of a risk type from an account's risk profile
+   * @param riskType Risk type (1=Liquidity, 2=Collateral, 3=Liquidation)
+   * @param account The account (defaults to the current account)
+   */
+  async getRiskThreshold(
+    riskType: number,
+    account: AccountAddressInput = this.signer.accountAddress
+  ): Promise<RiskThreshold> {
+    try {
+      const [medium, high, critical] = await this.client.view<
+        [string, string, string]
+      >({
+        payload: {
+          function: `${this.baseAddress}::risk_manager::get_risk_threshold`,
+          typeArguments: [],
+          functionArguments: [account, riskType],
+        },
+      });
+
+      return {
+        medium: Number(medium),
+        high: Number(high),
+        critical: Number(critical),
+      };
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to get risk threshold");
+    }
+  }
+
+  /**
+   * Get the minimum liquidity requirement from an account's risk profile
+   * @param account The account (defaults to the current account)
+   * @returns Base units
+   */
+  async getMinLiquidityRequirement(
+    account: AccountAddressInput = this.signer.accountAddress
+  ): Promise<string> {
+    try {
+      const [requirement] = await this.client.view<[string]>({
+        payload: {
+          function: `${this.baseAddress}::risk_manager::get_min_liquidity_requirement`,
+          typeArguments: [],
+          functionArguments: [account],
+        },
+      });
+
+      return requirement;
+    } catch (error: any) {
+      throw toPayMasterError(
+        error,
+        "Failed to get minimum liquidity requirement"
+      );
+    }
+  }
+
+  /**
+   * Update minimum liquidity requirement
+   * @param minLiquidityRequirement Minimum liquidity required, in base units or with a symbol
+   * @param coinType The type of coin the requirement is denominated in
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async updateMinLiquidityRequirement<
+    O extends TransactionOptions = TransactionOptions
+  >(
+    minLiquidityRequirement: AmountInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      const baseRequirement = await this.coins.parseAmount(
+        minLiquidityRequirement,
+        coinType
+      );
+
+      return await this.submitTransaction(
+        {
+          function: `${this.baseAddress}::risk_manager::update_min_liquidity_requirement`,
+          typeArguments: [],
+          functionArguments: [baseRequirement],
+        },
+        options
+      );
+    } catch (error: any) {
+      throw toPayMasterError(
+        error,
+        "Failed to update minimum liquidity requirement"
+      );
+    }
+  }
+
+  /**
+   * Check account balance, counting both the legacy CoinStore and the
+   * primary fungible store
+   * @param coinType The coin type, or a fungible asset metadata address
+   * @param account The account to check (defaults to the current account)
+   * @returns The balance in base units
+   */
+  async getBalance(
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    account: AccountAddressInput = this.signer.accountAddress
+  ): Promise<string> {
+    try {
+      // coin::balance also includes the paired fungible asset of a coin
+      const [balance] = await this.client.view<[string]>({
+        payload: isFungibleAsset(coinType)
+          ? {
+              function: "0x1::primary_fungible_store::balance",
+              typeArguments: ["0x1::fungible_asset::Metadata"],
+              functionArguments: [account, coinType],
+            }
+          : {
+              function: "0x1::coin::balance",
+              typeArguments: [coinType],
+              functionArguments: [account],
+            },
       });
 
-      return submittedTransaction.hash;
+      return balance;
     } catch (error: any) {
-      throw new Error(`Failed to cancel scheduled payment: ${error.message}`);
+      throw toPayMasterError(error, "Failed to get balance");
     }
   }
 
   /**
-   * Execute a pending payment
-   * @param payer The address of the payer
-   * @param paymentId The ID of the payment to execute
-   * @param coinType The type of coin used for the payment
+   * Check that an address can be paid in a coin: it is a valid address, the
+   * account exists on chain and it can receive the coin
+   * @param address The recipient address
+   * @param coinType The coin type, or a fungible asset metadata address
    */
-  async executePayment(
-    payer: string,
-    paymentId: number,
+  async checkRecipient(
+    address: string,
     coinType: string = "0x1::aptos_coin::AptosCoin"
-  ): Promise<string> {
-    try {
-      // 1. Build the transaction
-      const transaction = await this.client.transaction.build.simple({
-        sender: this.account.accountAddress,
-        data: {
-          function: `${this.baseAddress}::payment_automation::execute_payment`,
-          typeArguments: [coinType],
-          functionArguments: [payer, paymentId.toString()],
-        },
-      });
+  ): Promise<RecipientCheck> {
+    if (!AccountAddress.isValid({ input: address }).valid) {
+      return {
+        address,
+        exists: false,
+        canReceive: false,
+        problems: [`${address} is not a valid account address`],
+      };
+    }
 
-      // 2. Sign the transaction
-      const senderAuthenticator = this.client.transaction.sign({
-        signer: this.account,
-        transaction,
-      });
+    const account = AccountAddress.from(address);
+    const check: RecipientCheck = {
+      address: account.toStringLong(),
+      exists: false,
+      canReceive: false,
+      problems: [],
+    };
+    if (account.equals(AccountAddress.ZERO)) {
+      check.problems.push("The zero address cannot receive payments");
+      return check;
+    }
 
-      // 3. Submit the transaction
-      const submittedTransaction = await this.client.transaction.submit.simple({
-        transaction,
-        senderAuthenticator,
-      });
+    try {
+      check.exists = await this.client
+        .getAccountInfo({ accountAddress: account })
+        .then(() => true)
+        .catch((error: any) => {
+          if (error?.status === 404) {
+            return false;
+          }
+          throw error;
+        });
+      if (!check.exists) {
+        check.problems.push(`Account ${check.address} does not exist`);
+        return check;
+      }
+
+      if (isFungibleAsset(coinType)) {
+        const [frozen] = await this.client.view<[boolean]>({
+          payload: {
+            function: "0x1::primary_fungible_store::is_frozen",
+            typeArguments: ["0x1::fungible_asset::Metadata"],
+            functionArguments: [account, coinType],
+          },
+        });
+        check.canReceive = !frozen;
+      } else {
+        // Also true when the account can receive the coin's paired fungible asset
+        const [registered] = await this.client.view<[boolean]>({
+          payload: {
+            function: "0x1::coin::is_account_registered",
+            typeArguments: [coinType],
+            functionArguments: [account],
+          },
+        });
+        check.canReceive = registered;
+      }
+      if (!check.canReceive) {
+        check.problems.push(
+          `Account ${check.address} cannot receive ${coinType}`
+        );
+      }
 
-      return submittedTransaction.hash;
+      return check;
     } catch (error: any) {
-      throw new Error(`Failed to execute payment: ${error.message}`);
+      throw toPayMasterError(error, "Failed to check recipient");
     }
   }
 
   /**
-   * Initialize yield strategies for the current account
-   * @param coinType The type of coin to use
+   * List every asset an account holds, using the indexer
+   * @param account The account to check (defaults to the current account)
    */
-  async initializeYieldStrategies(
-    coinType: string = "0x1::aptos_coin::AptosCoin"
-  ): Promise<string> {
+  async getPortfolio(
+    account: AccountAddressInput = this.signer.accountAddress
+  ): Promise<PortfolioAsset[]> {
     try {
-      // 1. Build the transaction
-      const transaction = await this.client.transaction.build.simple({
-        sender: this.account.accountAddress,
-        data: {
-          function: `${this.baseAddress}::yield_optimizer::initialize_yield_strategies`,
-          typeArguments: [coinType],
-          functionArguments: [],
+      const balances = await this.client.getCurrentFungibleAssetBalances({
+        options: {
+          where: {
+            owner_address: { _eq: AccountAddress.from(account).toString() },
+            amount: { _gt: 0 },
+          },
         },
       });
 
-      // 2. Sign the transaction
-      const senderAuthenticator = this.client.transaction.sign({
-        signer: this.account,
-        transaction,
-      });
-
-      // 3. Submit the transaction
-      const submittedTransaction = await this.client.transaction.submit.simple({
-        transaction,
-        senderAuthenticator,
-      });
+      return await Promise.all(
+        balances
+          .filter((balance) => balance.asset_type)
+          .map(async (balance) => {
+            const assetType = balance.asset_type as string;
+            const { symbol, decimals } = await this.coins.resolve(assetType);
+            const amount = String(balance.amount);
 
-      return submittedTransaction.hash;
+            return {
+              assetType,
+              standard:
+                balance.token_standard === "v2" ? "fungible_asset" : "coin",
+              symbol,
+              decimals,
+              amount,
+              displayAmount: toDisplayUnits(amount, decimals),
+            } as PortfolioAsset;
+          })
+      );
     } catch (error: any) {
-      throw new Error(
-        `Failed to initialize yield strategies: ${error.message}`
+      throw toPayMasterError(error, "Failed to get portfolio");
+    }
+  }
+
+  /**
+   * Transfer tokens directly (not using scheduled payments)
+   * @param recipient Recipient address, or a name in the address book
+   * @param amount Amount to send, in base units or with a symbol (e.g. "10 APT")
+   * @param coinType The coin type, or a fungible asset metadata address
+   * @param options Transaction options, e.g. { simulate: true } for a dry run
+   */
+  async transferTokens<O extends TransactionOptions = TransactionOptions>(
+    recipient: string,
+    amount: AmountInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    options?: O
+  ): Promise<TransactionOutcome<O>> {
+    try {
+      const address = await this.resolveRecipient(recipient, coinType);
+      const baseAmount = await this.coins.parseAmount(amount, coinType);
+
+      return await this.submitTransaction(
+        isFungibleAsset(coinType)
+          ? {
+              function: "0x1::primary_fungible_store::transfer",
+              typeArguments: ["0x1::fungible_asset::Metadata"],
+              functionArguments: [coinType, address, baseAmount],
+            }
+          : {
+              function: "0x1::coin::transfer",
+              typeArguments: [coinType],
+              functionArguments: [address, baseAmount],
+            },
+        options,
+        { kind: "transfer", recipient: address, amount: baseAmount, coinType }
       );
+    } catch (error: any) {
+      throw toPayMasterError(error, "Failed to transfer tokens");
     }
   }
 
   /**
-   * Create a yield strategy
-   * @param protocolId Protocol ID (1=Thala, 2=Aries, 3=Momentum)
-   * @param targetPercentage Percentage of idle funds to allocate (basis points, 10000 = 100%)
-   * @param minIdleAmount Minimum amount of idle funds to trigger allocation
-   * @param coinType The type of coin to use
+   * Resolve a recipient given by name and check that it can be paid, so that
+   * typos fail before anything is signed
+   * @param recipient Recipient address, or a name in the address book
+   * @param coinType The coin the recipient will be paid in
+   * @returns The recipient address in long form
    */
-  async createYieldStrategy(
-    protocolId: number,
-    targetPercentage: number,
-    minIdleAmount: string,
-    coinType: string = "0x1::aptos_coin::AptosCoin"
+  private async resolveRecipient(
+    recipient: string,
+    coinType: string
   ): Promise<string> {
-    try {
-      // 1. Build the transaction
-      const transaction = await this.client.transaction.build.simple({
-        sender: this.account.accountAddress,
-        data: {
-          function: `${this.baseAddress}::yield_optimizer::create_yield_strategy`,
-          typeArguments: [coinType],
-          functionArguments: [
-            protocolId.toString(),
-            targetPercentage.toString(),
-            minIdleAmount,
-          ],
-        },
-      });
+    const address = this.addressBook
+      ? await this.addressBook.resolve(recipient)
+      : recipient;
+    if (address === null) {
+      throw new RecipientValidationError(`Unknown recipient ${recipient}`, [
+        `${recipient} is neither an address nor an address book entry`,
+      ]);
+    }
 
-      // 2. Sign the transaction
-      const senderAuthenticator = this.client.transaction.sign({
-        signer: this.account,
-        transaction,
-      });
+    const check = await this.checkRecipient(address, coinType);
+    if (check.problems.length > 0) {
+      throw new RecipientValidationError(
+        `Cannot pay ${recipient}: ${check.problems.join("; ")}`,
+        check.problems
+      );
+    }
+    return check.address;
+  }
 
-      // 3. Submit the transaction
-      const submittedTransaction = await this.client.transaction.submit.simple({
-        transaction,
-        senderAuthenticator,
-      });
+  /**
+   * Build a transaction, then simulate it or sign, submit and wait for it
+   * @param data The entry function payload
+   * @param options Transaction options
+   * @param intent What the transaction does with funds, for the spending policy
+   */
+  private async submitTransaction<O extends TransactionOptions>(
+    data: InputEntryFunctionData,
+    options?: O,
+    intent?: SpendingIntent
+  ): Promise<TransactionOutcome<O>> {
+    const spending = intent ? this.spending : null;
 
-      return submittedTransaction.hash;
-    } catch (error: any) {
-      throw new Error(`Failed to create yield strategy: ${error.message}`);
+    if (options?.simulate) {
+      // A dry run reports violations without opening approval requests
+      if (spending && intent) {
+        const { allowed, violations } = await spending.evaluate(intent);
+        if (!allowed) {
+          throw new SpendingPolicyError(
+            violations.map((violation) => violation.message).join("; "),
+            violations
+          );
+        }
+      }
+
+      const sponsor = this.sponsorFor(data);
+      const transaction = await this.buildTransaction(data, sponsor);
+      return (await this.simulateTransaction(
+        transaction,
+        sponsor
+      )) as TransactionOutcome<O>;
     }
+
+    const timeoutSecs = options?.timeoutSecs ?? DEFAULT_TXN_TIMEOUT_SEC;
+    return (
+      options?.requestId
+        ? await this.commitOnce(options.requestId, data, timeoutSecs, intent)
+        : await this.commit(data, timeoutSecs, intent)
+    ) as TransactionOutcome<O>;
   }
 
   /**
-   * Allocate idle funds according to a strategy
-   * @param strategyId The ID of the strategy to use
-   * @param amount Amount to allocate
-   * @param coinType The type of coin to use
+   * Send a transaction at most once per request ID. A retry returns the
+   * earlier result if it committed, and only sends again once the earlier
+   * attempt is known not to have paid anything.
+   * @param requestId The client request ID
+   * @param data The entry function payload
+   * @param timeoutSecs How long to wait for the transaction to commit
+   * @param intent What the transaction does with funds, for the spending policy
    */
-  async allocateIdleFunds(
-    strategyId: number,
-    amount: string,
-    coinType: string = "0x1::aptos_coin::AptosCoin"
-  ): Promise<string> {
+  private async commitOnce(
+    requestId: string,
+    data: InputEntryFunctionData,
+    timeoutSecs: number,
+    intent?: SpendingIntent
+  ): Promise<TransactionResult> {
+    const previous = await this.intents.begin(requestId, data);
+
     try {
-      // 1. Build the transaction
-      const transaction = await this.client.transaction.build.simple({
-        sender: this.account.accountAddress,
-        data: {
-          function: `${this.baseAddress}::yield_optimizer::allocate_idle_funds`,
-          typeArguments: [coinType],
-          functionArguments: [strategyId.toString(), amount],
-        },
-      });
+      if (previous.status === "committed" && previous.result) {
+        return previous.result;
+      }
 
-      // 2. Sign the transaction
-      const senderAuthenticator = this.client.transaction.sign({
-        signer: this.account,
-        transaction,
-      });
+      if (previous.status === "submitted") {
+        const landed = await this.findSubmitted(previous, timeoutSecs);
+        if (landed) {
+          await this.settleLanded(landed, intent);
+          const result = toTransactionResult(landed);
+          if (result.success) {
+            await this.intents.markCommitted(requestId, result);
+            return result;
+          }
+          await this.intents.markFailed(requestId, result.vmStatus, result);
+        }
+      }
 
-      // 3. Submit the transaction
-      const submittedTransaction = await this.client.transaction.submit.simple({
-        transaction,
-        senderAuthenticator,
-      });
+      await this.intents.markPending(requestId);
+      this.submissions.set(data, requestId);
 
-      return submittedTransaction.hash;
-    } catch (error: any) {
-      throw new Error(`Failed to allocate idle funds: ${error.message}`);
+      let result: TransactionResult;
+      try {
+        result = await this.commit(data, timeoutSecs, intent);
+      } catch (error: any) {
+        // Only a transaction that was never signed is known not to have landed
+        const current = await this.intents.get(requestId);
+        if (current?.status === "pending") {
+          await this.intents.markFailed(requestId, error?.message ?? error);
+        }
+        throw error;
+      } finally {
+        this.submissions.delete(data);
+      }
+
+      if (result.success) {
+        await this.intents.markCommitted(requestId, result);
+      } else {
+        await this.intents.markFailed(requestId, result.vmStatus, result);
+      }
+      return result;
+    } finally {
+      this.intents.end(requestId);
     }
   }
 
   /**
-   * Initialize risk profile for the current account
+   * Find out whether a transaction signed by an earlier attempt committed
+   * @param previous The intent of the earlier attempt
+   * @param timeoutSecs How long to wait for it
+   * @returns The committed transaction, or null once it can no longer commit
    */
-  async initializeRiskProfile(): Promise<string> {
+  private async findSubmitted(
+    previous: PaymentIntent,
+    timeoutSecs: number
+  ): Promise<UserTransactionResponse | null> {
     try {
-      // 1. Build the transaction
-      const transaction = await this.client.transaction.build.simple({
-        sender: this.account.accountAddress,
-        data: {
-          function: `${this.baseAddress}::risk_manager::initialize_risk_profile`,
-          typeArguments: [],
-          functionArguments: [],
-        },
-      });
+      return await this.waitForCommit(previous.hash!, timeoutSecs);
+    } catch (error) {
+      // Still unknown while the chain could include it
+      const { ledger_timestamp } = await this.client.getLedgerInfo();
+      const ledgerSecs = BigInt(ledger_timestamp) / BigInt(1000000);
+      if (ledgerSecs <= BigInt(previous.expiresAt ?? 0)) {
+        throw error;
+      }
+    }
 
-      // 2. Sign the transaction
-      const senderAuthenticator = this.client.transaction.sign({
-        signer: this.account,
-        transaction,
-      });
+    // Expired; look once more in case it committed just before
+    try {
+      return await this.waitForCommit(previous.hash!, 1);
+    } catch {
+      return null;
+    }
+  }
 
-      // 3. Submit the transaction
-      const submittedTransaction = await this.client.transaction.submit.simple({
-        transaction,
-        senderAuthenticator,
+  /**
+   * Sign, submit and wait for a transaction, holding its spending against
+   * the policy
+   * @param data The entry function payload
+   * @param timeoutSecs How long to wait for the transaction to commit
+   * @param intent What the transaction does with funds, for the spending policy
+   */
+  private async commit(
+    data: InputEntryFunctionData,
+    timeoutSecs: number,
+    intent?: SpendingIntent
+  ): Promise<TransactionResult> {
+    await this.reconcileHolds();
+
+    // Checked before signing; transfers are held against the daily limits
+    // until the transaction commits or expires
+    const spending = intent ? this.spending : null;
+    if (spending && intent) {
+      this.spendingHolds.set(data, {
+        engine: spending,
+        reservation: await spending.reserve(intent),
       });
+    }
 
-      return submittedTransaction.hash;
-    } catch (error: any) {
-      throw new Error(`Failed to initialize risk profile: ${error.message}`);
+    // Queued transactions are signed and submitted in sequence-number order
+    let committedTransaction: UserTransactionResponse;
+    try {
+      committedTransaction = this.queue
+        ? await this.queue.submit(data, timeoutSecs)
+        : await this.waitForCommit(await this.signAndSubmit(data), timeoutSecs);
+    } catch (error) {
+      // Once signed, the transaction may still commit, so its holds stay
+      // until reconcileHolds sees it expire
+      const unsigned = this.spendingHolds.get(data);
+      if (unsigned) {
+        unsigned.engine.release(unsigned.reservation);
+      }
+      throw error;
+    } finally {
+      this.spendingHolds.delete(data);
     }
+
+    await this.settleHolds(committedTransaction);
+    return toTransactionResult(committedTransaction);
   }
 
   /**
-   * Update risk thresholds
-   * @param riskType Risk type (1=Liquidity, 2=Collateral, 3=Liquidation)
-   * @param mediumThreshold Medium risk threshold
-   * @param highThreshold High risk threshold
-   * @param criticalThreshold Critical risk threshold
+   * Build, sign and submit a transaction without waiting for it
+   * @param data The entry function payload
+   * @param accountSequenceNumber Sequence number to use instead of the chain's
+   * @returns The transaction hash
    */
-  async updateRiskThreshold(
-    riskType: number,
-    mediumThreshold: number,
-    highThreshold: number,
-    criticalThreshold: number
+  private async signAndSubmit(
+    data: InputEntryFunctionData,
+    accountSequenceNumber?: bigint
   ): Promise<string> {
+    // 1. Build the transaction
+    const sponsor = this.sponsorFor(data);
+    const transaction = await this.buildTransaction(
+      data,
+      sponsor,
+      accountSequenceNumber
+    );
+
+    // Hold the maximum fee against the sponsor policy before anyone signs
+    const { max_gas_amount, gas_unit_price, expiration_timestamp_secs } =
+      transaction.rawTransaction;
+    const reservation = sponsor
+      ? await sponsor.reserve(
+          this.signer.accountAddress,
+          data.function,
+          max_gas_amount * gas_unit_price,
+          Number(expiration_timestamp_secs)
+        )
+      : null;
+
+    let signed = false;
     try {
-      // 1. Build the transaction
-      const transaction = await this.client.transaction.build.simple({
-        sender: this.account.accountAddress,
-        data: {
-          function: `${this.baseAddress}::risk_manager::update_risk_threshold`,
-          typeArguments: [],
-          functionArguments: [
-            riskType.toString(),
-            mediumThreshold.toString(),
-            highThreshold.toString(),
-            criticalThreshold.toString(),
-          ],
-        },
+      // 2. Sign the transaction, and co-sign it as fee payer when sponsored
+      const senderAuthenticator = await this.signer.signTransaction(
+        transaction
+      );
+      const feePayerAuthenticator = sponsor
+        ? await sponsor.signAsFeePayer(transaction)
+        : undefined;
+      const hash = generateUserTransactionHash({
+        transaction,
+        senderAuthenticator,
+        feePayerAuthenticator,
       });
 
-      // 2. Sign the transaction
-      const senderAuthenticator = this.client.transaction.sign({
-        signer: this.account,
-        transaction,
+      // From here the transaction may commit, so its holds are kept under
+      // its hash until it does or expires
+      signed = true;
+      const spending = this.spendingHolds.get(data);
+      this.spendingHolds.delete(data);
+      const requestId = this.submissions.get(data);
+      this.holds.set(hash, {
+        expiresAt: Number(expiration_timestamp_secs),
+        requestId,
+        sponsorship:
+          sponsor && reservation ? { sponsor, reservation } : undefined,
+        spending,
       });
 
+      // A request's hash is recorded before sending, so a retry can look it up
+      if (requestId) {
+        await this.intents.markSubmitted(
+          requestId,
+          hash,
+          Number(expiration_timestamp_secs)
+        );
+      }
+
       // 3. Submit the transaction
-      const submittedTransaction = await this.client.transaction.submit.simple({
+      await this.client.transaction.submit.simple({
         transaction,
         senderAuthenticator,
+        feePayerAuthenticator,
       });
+      return hash;
+    } catch (error) {
+      if (!signed && sponsor && reservation) {
+        sponsor.release(reservation);
+      }
+      throw error;
+    }
+  }
 
-      return submittedTransaction.hash;
-    } catch (error: any) {
-      throw new Error(`Failed to update risk threshold: ${error.message}`);
+  /**
+   * Wait for a submitted transaction to commit
+   * @param hash The transaction hash
+   * @param timeoutSecs How long to wait
+   */
+  private async waitForCommit(
+    hash: string,
+    timeoutSecs: number
+  ): Promise<UserTransactionResponse> {
+    // 4. Wait for the transaction to commit
+    return (await this.client.waitForTransaction({
+      transactionHash: hash,
+      options: {
+        timeoutSecs,
+        checkSuccess: false, // Failed transactions are reported, not thrown
+      },
+    })) as UserTransactionResponse;
+  }
+
+  /**
+   * Build a transaction, naming the sponsor as fee payer if there is one
+   * @param data The entry function payload
+   * @param sponsor The sponsor paying the gas, or null
+   * @param accountSequenceNumber Sequence number to use instead of the chain's
+   */
+  private async buildTransaction(
+    data: InputEntryFunctionData,
+    sponsor: GasSponsor | null,
+    accountSequenceNumber?: bigint
+  ): Promise<SimpleTransaction> {
+    const transaction = await this.client.transaction.build.simple({
+      sender: this.signer.accountAddress,
+      data,
+      withFeePayer: sponsor !== null,
+      options:
+        accountSequenceNumber === undefined
+          ? undefined
+          : { accountSequenceNumber },
+    });
+
+    if (sponsor) {
+      transaction.feePayerAddress = sponsor.accountAddress;
     }
+    return transaction;
   }
 
   /**
-   * Update minimum liquidity requirement
-   * @param minLiquidityRequirement Minimum liquidity required
+   * Get the sponsor that pays for a transaction, if its policy covers it
+   * @param data The entry function payload
    */
-  async updateMinLiquidityRequirement(
-    minLiquidityRequirement: string
-  ): Promise<string> {
-    try {
-      // 1. Build the transaction
-      const transaction = await this.client.transaction.build.simple({
-        sender: this.account.accountAddress,
-        data: {
-          function: `${this.baseAddress}::risk_manager::update_min_liquidity_requirement`,
-          typeArguments: [],
-          functionArguments: [minLiquidityRequirement],
-        },
-      });
+  private sponsorFor(data: InputEntryFunctionData): GasSponsor | null {
+    return this.sponsor?.covers(data.function) ? this.sponsor : null;
+  }
 
-      // 2. Sign the transaction
-      const senderAuthenticator = this.client.transaction.sign({
-        signer: this.account,
-        transaction,
-      });
+  /**
+   * Settle what a committed transaction held: the gas it cost against its
+   * sponsor, and a successful transfer against the spending policy
+   * @param committedTransaction The committed transaction
+   */
+  private async settleHolds(
+    committedTransaction: UserTransactionResponse
+  ): Promise<void> {
+    const holds = this.holds.get(committedTransaction.hash);
+    if (!holds) {
+      return;
+    }
 
-      // 3. Submit the transaction
-      const submittedTransaction = await this.client.transaction.submit.simple({
-        transaction,
-        senderAuthenticator,
-      });
+    this.holds.delete(committedTransaction.hash);
 
-      return submittedTransaction.hash;
-    } catch (error: any) {
-      throw new Error(
-        `Failed to update minimum liquidity requirement: ${error.message}`
+    // Recorded with the request, so that a retry replays the result instead
+    // of settling the transaction again
+    const intent = holds.requestId
+      ? await this.intents.get(holds.requestId)
+      : null;
+    if (holds.requestId && intent?.status === "submitted") {
+      const result = toTransactionResult(committedTransaction);
+      if (result.success) {
+        await this.intents.markCommitted(holds.requestId, result);
+      } else {
+        await this.intents.markFailed(holds.requestId, result.vmStatus, result);
+      }
+    }
+
+    if (holds.sponsorship) {
+      await holds.sponsorship.sponsor.settle(
+        holds.sponsorship.reservation,
+        BigInt(committedTransaction.gas_used) *
+          BigInt(committedTransaction.gas_unit_price)
       );
     }
+    if (holds.spending) {
+      if (committedTransaction.success) {
+        await holds.spending.engine.settle(holds.spending.reservation);
+      } else {
+        holds.spending.engine.release(holds.spending.reservation);
+      }
+    }
   }
 
   /**
-   * Check account balance
-   * @param coinType The type of coin to check
+   * Settle a transaction an earlier attempt submitted, once it is found to
+   * have committed. Its holds are gone after a restart, so the sponsor's gas
+   * and the transfer are then recorded from the transaction itself.
+   * @param landed The committed transaction
+   * @param intent What the transaction does with funds, for the spending policy
    */
-  async getBalance(
-    coinType: string = "0x1::aptos_coin::AptosCoin"
-  ): Promise<string> {
-    try {
-      const resources = await this.client.account.getAccountResources({
-        accountAddress: this.account.accountAddress,
-      });
+  private async settleLanded(
+    landed: UserTransactionResponse,
+    intent?: SpendingIntent
+  ): Promise<void> {
+    if (this.holds.has(landed.hash)) {
+      await this.settleHolds(landed);
+      return;
+    }
+
+    const signature = landed.signature;
+    if (
+      this.sponsor &&
+      signature &&
+      isFeePayerSignature(signature) &&
+      AccountAddress.from(signature.fee_payer_address).equals(
+        this.sponsor.accountAddress
+      )
+    ) {
+      await this.sponsor.record(
+        landed.sender,
+        BigInt(landed.gas_used) * BigInt(landed.gas_unit_price)
+      );
+    }
+    if (this.spending && intent && landed.success) {
+      await this.spending.record(intent);
+    }
+  }
+
+  /**
+   * Settle the holds of transactions whose wait ended without an outcome
+   * (e.g. it timed out) if they committed after all, or release them once
+   * the chain is past their expiration
+   */
+  private async reconcileHolds(): Promise<void> {
+    // The local clock only picks candidates; the ledger decides
+    const now = Math.floor(Date.now() / 1000);
+    const candidates = Array.from(this.holds.entries()).filter(
+      ([, holds]) => holds.expiresAt < now
+    );
+    if (candidates.length === 0) {
+      return;
+    }
 
-      const resourceType = `0x1::coin::CoinStore<${coinType}>`;
-      const resource = resources.find((r) => r.type === resourceType);
+    const { ledger_timestamp } = await this.client.getLedgerInfo();
+    const ledgerSecs = Number(BigInt(ledger_timestamp) / BigInt(1000000));
 
-      if (!resource) {
-        return "0"; // Coin not found in account
+    for (const [hash, holds] of candidates) {
+      if (holds.expiresAt >= ledgerSecs) {
+        continue;
       }
 
-      return (resource.data as any).coin.value;
-    } catch (error: any) {
-      throw new Error(`Failed to get balance: ${error.message}`);
+      let committedTransaction: UserTransactionResponse | null;
+      try {
+        committedTransaction = await this.waitForCommit(hash, 1);
+      } catch {
+        committedTransaction = null;
+      }
+
+      if (committedTransaction) {
+        await this.settleHolds(committedTransaction);
+        continue;
+      }
+
+      this.holds.delete(hash);
+      holds.sponsorship?.sponsor.release(holds.sponsorship.reservation);
+      holds.spending?.engine.release(holds.spending.reservation);
     }
   }
 
   /**
-   * Transfer tokens directly (not using scheduled payments)
-   * @param recipient Recipient address
-   * @param amount Amount to send
-   * @param coinType The type of coin to send
+   * Simulate a built transaction without submitting it
+   * @param transaction The transaction to simulate
+   * @param sponsor The sponsor named as fee payer, or null
    */
-  async transferTokens(
-    recipient: string,
-    amount: string,
-    coinType: string = "0x1::aptos_coin::AptosCoin"
-  ): Promise<string> {
-    try {
-      // 1. Build the transaction
-      const transaction = await this.client.transaction.build.simple({
-        sender: this.account.accountAddress,
-        data: {
-          function: "0x1::coin::transfer",
-          typeArguments: [coinType],
-          functionArguments: [recipient, amount],
-        },
-      });
+  private async simulateTransaction(
+    transaction: SimpleTransaction,
+    sponsor: GasSponsor | null
+  ): Promise<SimulationResult> {
+    const [response] = await this.client.transaction.simulate.simple({
+      signerPublicKey: this.signer.publicKey,
+      feePayerPublicKey: sponsor?.publicKey,
+      transaction,
+      options: { estimateGasUnitPrice: true },
+    });
 
-      // 2. Sign the transaction
-      const senderAuthenticator = this.client.transaction.sign({
-        signer: this.account,
-        transaction,
-      });
+    const gasUsed = Number(response.gas_used);
+    const gasUnitPrice = Number(response.gas_unit_price);
 
-      // 3. Submit the transaction
-      const submittedTransaction = await this.client.transaction.submit.simple({
-        transaction,
-        senderAuthenticator,
-      });
+    return {
+      success: response.success,
+      vmStatus: response.vm_status,
+      error: decodeMoveAbort(response.vm_status) ?? undefined,
+      gasUsed,
+      gasUnitPrice,
+      estimatedFee: gasUsed * gasUnitPrice,
+      writeSet: response.changes.map(summarizeChange),
+    };
+  }
+}
 
-      return submittedTransaction.hash;
-    } catch (error: any) {
-      throw new Error(`Failed to transfer tokens: ${error.message}`);
-    }
+/**
+ * The larger of two amounts
+ */
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+/**
+ * Explain why a payment cannot be covered
+ * @param funding The funding check
+ */
+function describeShortfall(funding: FundingCheck): string {
+  const problems: string[] = [];
+  if (funding.shortfall !== "0") {
+    problems.push(
+      `${funding.source === "balance" ? "balance" : "delegated funds"} of ${
+        funding.available
+      } is ${funding.shortfall} short of the ${funding.required} required`
+    );
+  }
+  if (funding.gasShortfall !== "0") {
+    problems.push(
+      `gas of ${funding.estimatedGasFee} octas is ${funding.gasShortfall} short`
+    );
+  }
+  return `Insufficient funds: ${problems.join("; ")}`;
+}
+
+/**
+ * Check that risk thresholds are strictly decreasing, as update_risk_threshold
+ * requires
+ * @param threshold The thresholds of one risk type
+ * @throws Error if they are out of order
+ */
+export function checkThresholdOrder(threshold: RiskThreshold): void {
+  const { medium, high, critical } = threshold;
+  if (!(medium > high && high > critical)) {
+    throw new Error(
+      `Risk thresholds must be ordered medium > high > critical (got ${medium}, ${high}, ${critical})`
+    );
+  }
+}
+
+/**
+ * Read a Move Option<u64> returned by a view function
+ * @param option The option as JSON
+ */
+function fromMoveOption(option: ViewOption<string>): number | null {
+  return option.vec.length > 0 ? Number(option.vec[0]) : null;
+}
+
+/**
+ * Read a catch-up policy returned by get_payment_catch_up_policy
+ * @param option The Move Option<u8> as JSON
+ */
+function toCatchUpPolicy(option: ViewOption<number>): CatchUpPolicy | null {
+  if (option.vec.length === 0) {
+    return null;
+  }
+
+  const code = Number(option.vec[0]);
+  const policy = (Object.keys(CATCH_UP_POLICY_CODES) as CatchUpPolicy[]).find(
+    (name) => CATCH_UP_POLICY_CODES[name] === code
+  );
+  if (!policy) {
+    throw new Error(`Unknown catch-up policy: ${code}`);
+  }
+  return policy;
+}
+
+/**
+ * Map a committed transaction to a TransactionResult
+ * @param committedTransaction The committed transaction
+ */
+function toTransactionResult(
+  committedTransaction: UserTransactionResponse
+): TransactionResult {
+  return {
+    hash: committedTransaction.hash,
+    success: committedTransaction.success,
+    vmStatus: committedTransaction.vm_status,
+    error: decodeMoveAbort(committedTransaction.vm_status) ?? undefined,
+    version: committedTransaction.version,
+    gasUsed: Number(committedTransaction.gas_used),
+    timestamp: Number(committedTransaction.timestamp),
+    events: committedTransaction.events.map((event) => ({
+      type: event.type,
+      data: event.data,
+    })),
+  };
+}
+
+/**
+ * Reduce a write set change to what it touches
+ * @param change The write set change
+ */
+function summarizeChange(change: WriteSetChange): WriteSetSummary {
+  if ("handle" in change) {
+    return { type: change.type, target: `${change.handle}[${change.key}]` };
+  }
+  if ("resource" in change) {
+    return {
+      type: change.type,
+      address: change.address,
+      target: change.resource,
+    };
+  }
+  if ("module" in change) {
+    return {
+      type: change.type,
+      address: change.address,
+      target: change.module,
+    };
+  }
+  if ("bytecode" in change.data) {
+    return {
+      type: change.type,
+      address: change.address,
+      target: change.data.abi?.name ?? "",
+    };
   }
+  return {
+    type: change.type,
+    address: change.address,
+    target: change.data.type,
+  };
 }
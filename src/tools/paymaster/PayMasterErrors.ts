@@ -0,0 +1,360 @@
+// Move abort categories from std::error (upper bits of an abort code)
+const ABORT_CATEGORIES: Record<number, string> = {
+  0x1: "INVALID_ARGUMENT",
+  0x2: "OUT_OF_RANGE",
+  0x3: "INVALID_STATE",
+  0x4: "UNAUTHENTICATED",
+  0x5: "PERMISSION_DENIED",
+  0x6: "NOT_FOUND",
+  0x7: "ABORTED",
+  0x8: "ALREADY_EXISTS",
+  0x9: "RESOURCE_EXHAUSTED",
+  0xa: "CANCELLED",
+  0xb: "INTERNAL",
+  0xc: "NOT_IMPLEMENTED",
+  0xd: "UNAVAILABLE",
+};
+
+export interface AbortDetails {
+  module: string; // e.g. payment_automation
+  code: number; // Reason code, e.g. 3 for E_INSUFFICIENT_FUNDS
+  abortCode: number; // Full abort code including the category
+  category: string; // e.g. INVALID_ARGUMENT
+  reason: string; // Name of the Move error constant
+  explanation: string;
+}
+
+/**
+ * Base class for decoded Move aborts raised by PayMaster transactions
+ */
+export class PayMasterAbortError extends Error {
+  readonly module: string;
+  readonly code: number;
+  readonly abortCode: number;
+  readonly category: string;
+  readonly reason: string;
+  readonly explanation: string;
+
+  constructor(message: string, details: AbortDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.module = details.module;
+    this.code = details.code;
+    this.abortCode = details.abortCode;
+    this.category = details.category;
+    this.reason = details.reason;
+    this.explanation = details.explanation;
+  }
+}
+
+export class NotAuthorizedError extends PayMasterAbortError {}
+export class PaymentNotFoundError extends PayMasterAbortError {}
+export class InsufficientFundsError extends PayMasterAbortError {}
+export class InvalidScheduleError extends PayMasterAbortError {}
+export class InvalidRecipientError extends PayMasterAbortError {}
+export class DelegationExpiredError extends PayMasterAbortError {}
+export class SpendingCapExceededError extends PayMasterAbortError {}
+export class ProtocolNotSupportedError extends PayMasterAbortError {}
+export class InvalidAmountError extends PayMasterAbortError {}
+export class StrategyNotFoundError extends PayMasterAbortError {}
+export class ThresholdInvalidError extends PayMasterAbortError {}
+export class RiskProfileNotFoundError extends PayMasterAbortError {}
+
+/**
+ * Raised when a gas sponsor refuses to pay for a transaction
+ */
+export class SponsorPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * A spending policy rule a transaction breaks
+ */
+export interface PolicyViolation {
+  rule:
+    | "coin_not_allowed"
+    | "recipient_not_allowed"
+    | "blocked_hours"
+    | "max_single_transfer"
+    | "daily_limit";
+  message: string;
+}
+
+/**
+ * Raised when the spending policy refuses to sign a transaction
+ */
+export class SpendingPolicyError extends Error {
+  readonly violations: PolicyViolation[];
+
+  constructor(message: string, violations: PolicyViolation[]) {
+    super(message);
+    this.name = new.target.name;
+    this.violations = violations;
+  }
+}
+
+/**
+ * Raised when a transaction is over a spending limit but may go ahead once
+ * approved. Approve the request, then repeat the call.
+ */
+export class ApprovalRequiredError extends SpendingPolicyError {
+  readonly requestId: string;
+
+  constructor(
+    message: string,
+    violations: PolicyViolation[],
+    requestId: string
+  ) {
+    super(message, violations);
+    this.requestId = requestId;
+  }
+}
+
+/**
+ * Raised when a recipient fails its on-chain checks, e.g. the account does
+ * not exist or cannot receive the coin
+ */
+export class RecipientValidationError extends Error {
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[]) {
+    super(message);
+    this.name = new.target.name;
+    this.problems = problems;
+  }
+}
+
+/**
+ * Raised before submitting when a payment or its gas cannot be covered, so
+ * no gas is spent on a transaction that would abort
+ */
+export class InsufficientFundingError extends Error {
+  readonly shortfall: string; // Base units of the payment coin
+  readonly gasShortfall: string; // Octas
+
+  constructor(message: string, shortfall: string, gasShortfall: string) {
+    super(message);
+    this.name = new.target.name;
+    this.shortfall = shortfall;
+    this.gasShortfall = gasShortfall;
+  }
+}
+
+/**
+ * Raised when a client request ID is already being sent, or was used for a
+ * different transaction
+ */
+export class DuplicateRequestError extends Error {
+  readonly requestId: string;
+
+  constructor(message: string, requestId: string) {
+    super(message);
+    this.name = new.target.name;
+    this.requestId = requestId;
+  }
+}
+
+type AbortErrorClass = new (
+  message: string,
+  details: AbortDetails
+) => PayMasterAbortError;
+
+interface AbortDefinition {
+  reason: string;
+  errorClass: AbortErrorClass;
+  explanation: string;
+}
+
+// Abort constants of each Move module, keyed by reason code
+const ABORT_DEFINITIONS: Record<string, Record<number, AbortDefinition>> = {
+  payment_automation: {
+    1: {
+      reason: "E_NOT_AUTHORIZED",
+      errorClass: NotAuthorizedError,
+      explanation:
+        "Only the payer or an executor it has authorized can execute this payment.",
+    },
+    2: {
+      reason: "E_PAYMENT_NOT_FOUND",
+      errorClass: PaymentNotFoundError,
+      explanation:
+        "The payment does not exist, or it has been cancelled and can no longer be executed.",
+    },
+    3: {
+      reason: "E_INSUFFICIENT_FUNDS",
+      errorClass: InsufficientFundsError,
+      explanation:
+        "The payer, or the funds it set aside for executors, does not hold enough for this payment.",
+    },
+    4: {
+      reason: "E_INVALID_SCHEDULE",
+      errorClass: InvalidScheduleError,
+      explanation:
+        "The schedule is invalid: amount and interval must be positive, and the payment must be due before it is executed.",
+    },
+    5: {
+      reason: "E_INVALID_RECIPIENT",
+      errorClass: InvalidRecipientError,
+      explanation: "The recipient address is not valid.",
+    },
+    6: {
+      reason: "E_DELEGATION_EXPIRED",
+      errorClass: DelegationExpiredError,
+      explanation: "The executor's authorization has expired.",
+    },
+    7: {
+      reason: "E_SPENDING_CAP_EXCEEDED",
+      errorClass: SpendingCapExceededError,
+      explanation:
+        "The payment exceeds the executor's per-payment or per-period spending cap.",
+    },
+  },
+  yield_optimizer: {
+    1: {
+      reason: "E_NOT_AUTHORIZED",
+      errorClass: NotAuthorizedError,
+      explanation: "Only the strategy owner can perform this operation.",
+    },
+    2: {
+      reason: "E_PROTOCOL_NOT_SUPPORTED",
+      errorClass: ProtocolNotSupportedError,
+      explanation:
+        "The protocol is not supported (1=Thala, 2=Aries, 3=Momentum).",
+    },
+    3: {
+      reason: "E_INSUFFICIENT_FUNDS",
+      errorClass: InsufficientFundsError,
+      explanation: "The account does not hold enough funds to allocate.",
+    },
+    4: {
+      reason: "E_INVALID_AMOUNT",
+      errorClass: InvalidAmountError,
+      explanation:
+        "The amount must be positive and the target percentage at most 10000 basis points.",
+    },
+    5: {
+      reason: "E_STRATEGY_NOT_FOUND",
+      errorClass: StrategyNotFoundError,
+      explanation: "The yield strategy does not exist or is inactive.",
+    },
+  },
+  risk_manager: {
+    1: {
+      reason: "E_NOT_AUTHORIZED",
+      errorClass: NotAuthorizedError,
+      explanation: "The caller is not allowed to update this risk profile.",
+    },
+    2: {
+      reason: "E_THRESHOLD_INVALID",
+      errorClass: ThresholdInvalidError,
+      explanation:
+        "The risk type is unknown or the thresholds are not ordered medium > high > critical.",
+    },
+    3: {
+      reason: "E_RISK_PROFILE_NOT_FOUND",
+      errorClass: RiskProfileNotFoundError,
+      explanation: "The account has no risk profile. Initialize it first.",
+    },
+  },
+  // Framework transfers made on behalf of PayMaster modules
+  coin: {
+    6: {
+      reason: "EINSUFFICIENT_BALANCE",
+      errorClass: InsufficientFundsError,
+      explanation: "The payer does not hold enough coins for this transfer.",
+    },
+  },
+  fungible_asset: {
+    4: {
+      reason: "EINSUFFICIENT_BALANCE",
+      errorClass: InsufficientFundsError,
+      explanation: "The payer does not hold enough funds for this transfer.",
+    },
+  },
+};
+
+// Matches e.g. "Move abort in 0x1a2b::payment_automation: E_PAYMENT_NOT_FOUND(0x60002): ..."
+// and the unnamed form "Move abort in 0x1a2b::payment_automation: 0x60002"
+const MOVE_ABORT_PATTERN =
+  /Move abort in (0x[0-9a-fA-F]+)::(\w+): (?:\w+\()?(0x[0-9a-fA-F]+|\d+)/;
+
+/**
+ * Decode a Move abort from a VM status or error message
+ * @param message The VM status or error message
+ * @returns The typed error, or null if the message is not a known abort
+ */
+export function decodeMoveAbort(message: string): PayMasterAbortError | null {
+  const match = MOVE_ABORT_PATTERN.exec(message);
+  if (!match) {
+    return null;
+  }
+
+  const [, , module, rawCode] = match;
+  const abortCode = Number(rawCode);
+  const code = abortCode & 0xffff;
+  const definition = ABORT_DEFINITIONS[module]?.[code];
+  if (!definition) {
+    return null;
+  }
+
+  const details: AbortDetails = {
+    module,
+    code,
+    abortCode,
+    category: ABORT_CATEGORIES[abortCode >> 16] ?? "UNKNOWN",
+    reason: definition.reason,
+    explanation: definition.explanation,
+  };
+
+  return new definition.errorClass(
+    `${module}::${definition.reason}: ${definition.explanation}`,
+    details
+  );
+}
+
+/**
+ * Wrap an error thrown while talking to the chain
+ * @param error The original error
+ * @param context What was being attempted, e.g. "Failed to execute payment"
+ * @returns A typed abort error when the cause is a known Move abort
+ */
+export function toPayMasterError(error: any, context: string): Error {
+  const message = `${context}: ${error?.message ?? error}`;
+  if (error instanceof SponsorPolicyError) {
+    return new SponsorPolicyError(message);
+  }
+  if (error instanceof ApprovalRequiredError) {
+    return new ApprovalRequiredError(
+      message,
+      error.violations,
+      error.requestId
+    );
+  }
+  if (error instanceof SpendingPolicyError) {
+    return new SpendingPolicyError(message, error.violations);
+  }
+  if (error instanceof RecipientValidationError) {
+    return new RecipientValidationError(message, error.problems);
+  }
+  if (error instanceof InsufficientFundingError) {
+    return new InsufficientFundingError(
+      message,
+      error.shortfall,
+      error.gasShortfall
+    );
+  }
+  if (error instanceof DuplicateRequestError) {
+    return new DuplicateRequestError(message, error.requestId);
+  }
+
+  const abort = decodeMoveAbort(message);
+
+  if (!abort) {
+    return new Error(message);
+  }
+
+  return new (abort.constructor as AbortErrorClass)(message, abort);
+}
@@ -0,0 +1,175 @@
+import {
+  Account,
+  AccountAddress,
+  AccountAddressInput,
+  AccountAuthenticator,
+  AnyRawTransaction,
+  Deserializer,
+  Hex,
+  PublicKey,
+} from "@aptos-labs/ts-sdk";
+
+/**
+ * Signs transactions for an account without exposing its private key
+ */
+export interface PayMasterSigner {
+  accountAddress: AccountAddress;
+  publicKey?: PublicKey; // Used for simulation; without it the auth key check is skipped
+  signTransaction(
+    transaction: AnyRawTransaction
+  ): Promise<AccountAuthenticator>;
+}
+
+/**
+ * The part of a move-agent-kit signer (LocalSigner, WalletSigner) we use
+ */
+export interface MoveAgentKitSignerLike {
+  getAddress(): AccountAddress;
+  signTransaction(
+    transaction: AnyRawTransaction
+  ): Promise<{ senderAuthenticator?: AccountAuthenticator }>;
+}
+
+/**
+ * The part of a wallet adapter (e.g. useWallet()) we use
+ */
+export interface BrowserWalletLike {
+  account: { address: string } | null;
+  signTransaction(
+    transaction: AnyRawTransaction,
+    asFeePayer?: boolean
+  ): Promise<AccountAuthenticator>;
+}
+
+export interface RemoteSignerConfig {
+  url: string; // Endpoint that signs a BCS-encoded raw transaction
+  accountAddress: AccountAddressInput;
+  publicKey?: PublicKey;
+  headers?: Record<string, string>; // e.g. an Authorization header
+}
+
+/**
+ * Check if a value is a PayMasterSigner rather than a raw Account
+ * @param value A signer or an Account
+ */
+export function isPayMasterSigner(
+  value: PayMasterSigner | Account
+): value is PayMasterSigner {
+  return !("signTransactionWithAuthenticator" in value);
+}
+
+/**
+ * Signs with a local Account
+ */
+export class AccountSigner implements PayMasterSigner {
+  accountAddress: AccountAddress;
+  publicKey: PublicKey;
+  private account: Account;
+
+  constructor(account: Account) {
+    this.account = account;
+    this.accountAddress = account.accountAddress;
+    this.publicKey = account.publicKey;
+  }
+
+  async signTransaction(
+    transaction: AnyRawTransaction
+  ): Promise<AccountAuthenticator> {
+    return this.account.signTransactionWithAuthenticator(transaction);
+  }
+}
+
+/**
+ * Signs through a move-agent-kit signer, e.g. the LocalSigner used by
+ * AptosWalletManager
+ */
+export class MoveAgentKitSigner implements PayMasterSigner {
+  accountAddress: AccountAddress;
+  publicKey?: PublicKey;
+  private signer: MoveAgentKitSignerLike;
+
+  constructor(signer: MoveAgentKitSignerLike, publicKey?: PublicKey) {
+    this.signer = signer;
+    this.accountAddress = signer.getAddress();
+    this.publicKey = publicKey;
+  }
+
+  async signTransaction(
+    transaction: AnyRawTransaction
+  ): Promise<AccountAuthenticator> {
+    const { senderAuthenticator } = await this.signer.signTransaction(
+      transaction
+    );
+    if (!senderAuthenticator) {
+      throw new Error("move-agent-kit signer returned no authenticator");
+    }
+    return senderAuthenticator;
+  }
+}
+
+/**
+ * Signs through a connected browser wallet. The wallet prompts the user for
+ * every transaction.
+ */
+export class BrowserWalletSigner implements PayMasterSigner {
+  accountAddress: AccountAddress;
+  private wallet: BrowserWalletLike;
+
+  constructor(wallet: BrowserWalletLike) {
+    if (!wallet.account) {
+      throw new Error("Wallet is not connected");
+    }
+    this.wallet = wallet;
+    this.accountAddress = AccountAddress.from(wallet.account.address);
+  }
+
+  async signTransaction(
+    transaction: AnyRawTransaction
+  ): Promise<AccountAuthenticator> {
+    return this.wallet.signTransaction(transaction);
+  }
+}
+
+/**
+ * Signs through a remote signing service.
+ * The service receives { accountAddress, transaction } with the BCS-encoded
+ * raw transaction as hex, and returns { authenticator } as BCS hex.
+ */
+export class RemoteSigner implements PayMasterSigner {
+  accountAddress: AccountAddress;
+  publicKey?: PublicKey;
+  private url: string;
+  private headers: Record<string, string>;
+
+  constructor(config: RemoteSignerConfig) {
+    this.url = config.url;
+    this.accountAddress = AccountAddress.from(config.accountAddress);
+    this.publicKey = config.publicKey;
+    this.headers = config.headers ?? {};
+  }
+
+  async signTransaction(
+    transaction: AnyRawTransaction
+  ): Promise<AccountAuthenticator> {
+    try {
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...this.headers },
+        body: JSON.stringify({
+          accountAddress: this.accountAddress.toString(),
+          transaction: transaction.bcsToHex().toString(),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+
+      const { authenticator } = await response.json();
+      return AccountAuthenticator.deserialize(
+        new Deserializer(Hex.fromHexInput(authenticator).toUint8Array())
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to sign with remote signer: ${error.message}`);
+    }
+  }
+}
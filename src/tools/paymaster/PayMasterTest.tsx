@@ -181,14 +181,17 @@ export default function PayMasterTestUI() {
 
   // Assess risk
   const performRiskAssessment = async () => {
-    if (!riskEngine) return;
+    if (!riskEngine || !account) return;
 
     try {
       // For demo purposes, hardcoded available liquidity
       const availableLiquidity = "500";
 
       // Perform risk assessment
-      const assessment = riskEngine.performRiskAssessment(availableLiquidity);
+      const assessment = await riskEngine.performRiskAssessment(
+        account.accountAddress.toString(),
+        availableLiquidity
+      );
       setRiskAssessment(assessment);
       console.log("Risk assessment:", assessment);
     } catch (err: any) {
@@ -0,0 +1,499 @@
+import {
+  AccountAddress,
+  AccountAddressInput,
+  Aptos,
+  getAptosFullNode,
+} from "@aptos-labs/ts-sdk";
+import { PAYMASTER_ADDRESS } from "./DeploymentRegistry";
+
+// Raw event as returned by the fullnode event handle endpoint
+interface RawEvent<T> {
+  version: string;
+  sequence_number: string;
+  type: string;
+  data: T;
+}
+
+// Fields shared by every decoded event
+interface ActivityRecordBase {
+  version: string; // Ledger version of the emitting transaction
+  sequenceNumber: string; // Position within the event handle
+}
+
+export interface PaymentCreatedRecord extends ActivityRecordBase {
+  kind: "PaymentCreated";
+  paymentId: number;
+  recipient: string;
+  amount: string;
+  intervalSeconds: number;
+  nextPaymentTime: number;
+}
+
+export interface PaymentExecutedRecord extends ActivityRecordBase {
+  kind: "PaymentExecuted";
+  paymentId: number;
+  recipient: string;
+  amount: string;
+  executedAt: number;
+  nextPaymentTime: number;
+}
+
+export interface PaymentCancelledRecord extends ActivityRecordBase {
+  kind: "PaymentCancelled";
+  paymentId: number;
+  cancelledAt: number;
+}
+
+export interface PaymentUpdatedRecord extends ActivityRecordBase {
+  kind: "PaymentUpdated";
+  paymentId: number;
+  recipient: string;
+  amount: string;
+  intervalSeconds: number;
+  nextPaymentTime: number;
+  isActive: boolean;
+  updatedAt: number;
+}
+
+export interface PaymentSkippedRecord extends ActivityRecordBase {
+  kind: "PaymentSkipped";
+  paymentId: number;
+  missedFrom: number; // The first missed payment time
+  nextPaymentTime: number;
+  skippedAt: number;
+}
+
+export interface FundsAllocatedRecord extends ActivityRecordBase {
+  kind: "FundsAllocated";
+  strategyId: number;
+  protocolId: number;
+  amount: string;
+  timestamp: number;
+}
+
+export interface FundsWithdrawnRecord extends ActivityRecordBase {
+  kind: "FundsWithdrawn";
+  strategyId: number;
+  protocolId: number;
+  amount: string;
+  timestamp: number;
+}
+
+export interface RiskLevelChangedRecord extends ActivityRecordBase {
+  kind: "RiskLevelChanged";
+  riskType: number;
+  previousLevel: number;
+  newLevel: number;
+  timestamp: number;
+}
+
+export type ActivityRecord =
+  | PaymentCreatedRecord
+  | PaymentExecutedRecord
+  | PaymentCancelledRecord
+  | PaymentUpdatedRecord
+  | PaymentSkippedRecord
+  | FundsAllocatedRecord
+  | FundsWithdrawnRecord
+  | RiskLevelChangedRecord;
+
+export interface EventPage {
+  start?: number; // Sequence number to start from
+  limit?: number; // Maximum number of events to return
+}
+
+// Page size used when walking a whole event handle
+const TIMELINE_PAGE_SIZE = 100;
+
+export class PaymentHistoryService {
+  private client: Aptos;
+  private baseAddress: string;
+
+  constructor(client: Aptos, baseAddress: string = PAYMASTER_ADDRESS) {
+    this.client = client;
+    this.baseAddress = baseAddress;
+  }
+
+  /**
+   * Get PaymentCreatedEvent history
+   * @param account The payer address
+   * @param coinType The type of coin used for the payments
+   * @param page Pagination options
+   */
+  async getPaymentCreatedEvents(
+    account: AccountAddressInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    page: EventPage = {}
+  ): Promise<PaymentCreatedRecord[]> {
+    const events = await this.fetchEvents<{
+      payment_id: string;
+      recipient: string;
+      amount: string;
+      interval_seconds: string;
+      next_payment_time: string;
+    }>(
+      account,
+      `payment_automation::PaymentSchedules<${coinType}>`,
+      "payment_created_events",
+      page
+    );
+
+    return events.map((event) => ({
+      kind: "PaymentCreated",
+      version: event.version,
+      sequenceNumber: event.sequence_number,
+      paymentId: Number(event.data.payment_id),
+      recipient: event.data.recipient,
+      amount: event.data.amount,
+      intervalSeconds: Number(event.data.interval_seconds),
+      nextPaymentTime: Number(event.data.next_payment_time),
+    }));
+  }
+
+  /**
+   * Get PaymentExecutedEvent history
+   * @param account The payer address
+   * @param coinType The type of coin used for the payments
+   * @param page Pagination options
+   */
+  async getPaymentExecutedEvents(
+    account: AccountAddressInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    page: EventPage = {}
+  ): Promise<PaymentExecutedRecord[]> {
+    const events = await this.fetchEvents<{
+      payment_id: string;
+      recipient: string;
+      amount: string;
+      executed_at: string;
+      next_payment_time: string;
+    }>(
+      account,
+      `payment_automation::PaymentSchedules<${coinType}>`,
+      "payment_executed_events",
+      page
+    );
+
+    return events.map((event) => ({
+      kind: "PaymentExecuted",
+      version: event.version,
+      sequenceNumber: event.sequence_number,
+      paymentId: Number(event.data.payment_id),
+      recipient: event.data.recipient,
+      amount: event.data.amount,
+      executedAt: Number(event.data.executed_at),
+      nextPaymentTime: Number(event.data.next_payment_time),
+    }));
+  }
+
+  /**
+   * Get PaymentCancelledEvent history
+   * @param account The payer address
+   * @param coinType The type of coin used for the payments
+   * @param page Pagination options
+   */
+  async getPaymentCancelledEvents(
+    account: AccountAddressInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    page: EventPage = {}
+  ): Promise<PaymentCancelledRecord[]> {
+    const events = await this.fetchEvents<{
+      payment_id: string;
+      cancelled_at: string;
+    }>(
+      account,
+      `payment_automation::PaymentSchedules<${coinType}>`,
+      "payment_cancelled_events",
+      page
+    );
+
+    return events.map((event) => ({
+      kind: "PaymentCancelled",
+      version: event.version,
+      sequenceNumber: event.sequence_number,
+      paymentId: Number(event.data.payment_id),
+      cancelledAt: Number(event.data.cancelled_at),
+    }));
+  }
+
+  /**
+   * Get PaymentUpdatedEvent history
+   * @param account The payer address
+   * @param coinType The type of coin used for the payments
+   * @param page Pagination options
+   */
+  async getPaymentUpdatedEvents(
+    account: AccountAddressInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    page: EventPage = {}
+  ): Promise<PaymentUpdatedRecord[]> {
+    const events = await this.fetchEvents<{
+      payment_id: string;
+      recipient: string;
+      amount: string;
+      interval_seconds: string;
+      next_payment_time: string;
+      is_active: boolean;
+      updated_at: string;
+    }>(
+      account,
+      `payment_automation::PaymentUpdateEvents<${coinType}>`,
+      "payment_updated_events",
+      page
+    );
+
+    return events.map((event) => ({
+      kind: "PaymentUpdated",
+      version: event.version,
+      sequenceNumber: event.sequence_number,
+      paymentId: Number(event.data.payment_id),
+      recipient: event.data.recipient,
+      amount: event.data.amount,
+      intervalSeconds: Number(event.data.interval_seconds),
+      nextPaymentTime: Number(event.data.next_payment_time),
+      isActive: event.data.is_active,
+      updatedAt: Number(event.data.updated_at),
+    }));
+  }
+
+  /**
+   * Get PaymentSkippedEvent history
+   * @param account The payer address
+   * @param coinType The type of coin used for the payments
+   * @param page Pagination options
+   */
+  async getPaymentSkippedEvents(
+    account: AccountAddressInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    page: EventPage = {}
+  ): Promise<PaymentSkippedRecord[]> {
+    const events = await this.fetchEvents<{
+      payment_id: string;
+      missed_from: string;
+      next_payment_time: string;
+      skipped_at: string;
+    }>(
+      account,
+      `payment_automation::PaymentCatchUps<${coinType}>`,
+      "payment_skipped_events",
+      page
+    );
+
+    return events.map((event) => ({
+      kind: "PaymentSkipped",
+      version: event.version,
+      sequenceNumber: event.sequence_number,
+      paymentId: Number(event.data.payment_id),
+      missedFrom: Number(event.data.missed_from),
+      nextPaymentTime: Number(event.data.next_payment_time),
+      skippedAt: Number(event.data.skipped_at),
+    }));
+  }
+
+  /**
+   * Get FundsAllocatedEvent history
+   * @param account The strategy owner address
+   * @param coinType The type of coin used by the strategies
+   * @param page Pagination options
+   */
+  async getFundsAllocatedEvents(
+    account: AccountAddressInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    page: EventPage = {}
+  ): Promise<FundsAllocatedRecord[]> {
+    const events = await this.fetchEvents<{
+      strategy_id: string;
+      protocol_id: number;
+      amount: string;
+      timestamp: string;
+    }>(
+      account,
+      `yield_optimizer::YieldStrategies<${coinType}>`,
+      "funds_allocated_events",
+      page
+    );
+
+    return events.map((event) => ({
+      kind: "FundsAllocated",
+      version: event.version,
+      sequenceNumber: event.sequence_number,
+      strategyId: Number(event.data.strategy_id),
+      protocolId: Number(event.data.protocol_id),
+      amount: event.data.amount,
+      timestamp: Number(event.data.timestamp),
+    }));
+  }
+
+  /**
+   * Get FundsWithdrawnEvent history
+   * @param account The strategy owner address
+   * @param coinType The type of coin used by the strategies
+   * @param page Pagination options
+   */
+  async getFundsWithdrawnEvents(
+    account: AccountAddressInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin",
+    page: EventPage = {}
+  ): Promise<FundsWithdrawnRecord[]> {
+    const events = await this.fetchEvents<{
+      strategy_id: string;
+      protocol_id: number;
+      amount: string;
+      timestamp: string;
+    }>(
+      account,
+      `yield_optimizer::YieldStrategies<${coinType}>`,
+      "funds_withdrawn_events",
+      page
+    );
+
+    return events.map((event) => ({
+      kind: "FundsWithdrawn",
+      version: event.version,
+      sequenceNumber: event.sequence_number,
+      strategyId: Number(event.data.strategy_id),
+      protocolId: Number(event.data.protocol_id),
+      amount: event.data.amount,
+      timestamp: Number(event.data.timestamp),
+    }));
+  }
+
+  /**
+   * Get RiskLevelChangedEvent history
+   * @param account The risk profile owner address
+   * @param page Pagination options
+   */
+  async getRiskLevelChangedEvents(
+    account: AccountAddressInput,
+    page: EventPage = {}
+  ): Promise<RiskLevelChangedRecord[]> {
+    const events = await this.fetchEvents<{
+      risk_type: number;
+      previous_level: number;
+      new_level: number;
+      timestamp: string;
+    }>(account, "risk_manager::RiskProfile", "risk_level_changed_events", page);
+
+    return events.map((event) => ({
+      kind: "RiskLevelChanged",
+      version: event.version,
+      sequenceNumber: event.sequence_number,
+      riskType: Number(event.data.risk_type),
+      previousLevel: Number(event.data.previous_level),
+      newLevel: Number(event.data.new_level),
+      timestamp: Number(event.data.timestamp),
+    }));
+  }
+
+  /**
+   * Get the complete PayMaster activity of an account in chronological order
+   * @param account The account address
+   * @param coinType The type of coin used for payments and strategies
+   * @returns Every decoded event, oldest first
+   */
+  async getActivityTimeline(
+    account: AccountAddressInput,
+    coinType: string = "0x1::aptos_coin::AptosCoin"
+  ): Promise<ActivityRecord[]> {
+    try {
+      const histories = await Promise.all([
+        this.fetchAll((page) =>
+          this.getPaymentCreatedEvents(account, coinType, page)
+        ),
+        this.fetchAll((page) =>
+          this.getPaymentExecutedEvents(account, coinType, page)
+        ),
+        this.fetchAll((page) =>
+          this.getPaymentCancelledEvents(account, coinType, page)
+        ),
+        this.fetchAll((page) =>
+          this.getPaymentUpdatedEvents(account, coinType, page)
+        ),
+        this.fetchAll((page) =>
+          this.getPaymentSkippedEvents(account, coinType, page)
+        ),
+        this.fetchAll((page) =>
+          this.getFundsAllocatedEvents(account, coinType, page)
+        ),
+        this.fetchAll((page) =>
+          this.getFundsWithdrawnEvents(account, coinType, page)
+        ),
+        this.fetchAll((page) => this.getRiskLevelChangedEvents(account, page)),
+      ]);
+
+      const timeline: ActivityRecord[] = histories.flat();
+
+      // Ledger versions are globally ordered, so they give an exact timeline
+      // even for events that carry no timestamp of their own
+      timeline.sort((a, b) => {
+        const versionDiff = BigInt(a.version) - BigInt(b.version);
+        if (versionDiff !== 0n) {
+          return versionDiff < 0n ? -1 : 1;
+        }
+        return Number(a.sequenceNumber) - Number(b.sequenceNumber);
+      });
+
+      return timeline;
+    } catch (error: any) {
+      throw new Error(`Failed to get activity timeline: ${error.message}`);
+    }
+  }
+
+  /**
+   * Walk every page of an event handle
+   * @param fetchPage Function fetching one page of records
+   */
+  private async fetchAll<T>(
+    fetchPage: (page: EventPage) => Promise<T[]>
+  ): Promise<T[]> {
+    const records: T[] = [];
+    let start = 0;
+
+    for (;;) {
+      const page = await fetchPage({ start, limit: TIMELINE_PAGE_SIZE });
+      records.push(...page);
+
+      if (page.length < TIMELINE_PAGE_SIZE) {
+        return records;
+      }
+      start += page.length;
+    }
+  }
+
+  /**
+   * Fetch raw events from an event handle stored in a PayMaster resource
+   * @param account The account holding the resource
+   * @param resource The resource type, relative to the package address
+   * @param fieldName The name of the event handle field
+   * @param page Pagination options
+   */
+  private async fetchEvents<T extends {}>(
+    account: AccountAddressInput,
+    resource: string,
+    fieldName: string,
+    page: EventPage
+  ): Promise<RawEvent<T>[]> {
+    const eventHandle = `${this.baseAddress}::${resource}`;
+
+    try {
+      const { data } = await getAptosFullNode<{}, RawEvent<T>[]>({
+        aptosConfig: this.client.config,
+        originMethod: "getEventsByEventHandle",
+        path: `accounts/${AccountAddress.from(account)}/events/${encodeURIComponent(
+          eventHandle
+        )}/${fieldName}`,
+        params: { start: page.start, limit: page.limit },
+      });
+
+      return data;
+    } catch (error: any) {
+      // Accounts that never initialized the resource have no events
+      if (error.status === 404) {
+        return [];
+      }
+      throw new Error(
+        `Failed to fetch ${fieldName} for ${eventHandle}: ${error.message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,340 @@
+import { DEFAULT_TXN_EXP_SEC_FROM_NOW } from "@aptos-labs/ts-sdk";
+import {
+  PayMasterAgent,
+  ScheduledPayment,
+  TransactionResult,
+} from "./PayMasterAgent";
+import { InsufficientFundingError } from "./PayMasterErrors";
+import { MemoryStateStore, StateStore } from "./StateStore";
+
+// A transaction that has not committed by its expiration never will, so
+// a due payment is only resubmitted once this window has passed
+const SUBMISSION_EXPIRY_MS = (DEFAULT_TXN_EXP_SEC_FROM_NOW + 30) * 1000;
+
+/**
+ * A payer whose due payments the keeper executes.
+ * execute_payment must be signed by the payer or an executor it has
+ * authorized, so each payer brings the agent that signs for it.
+ */
+export interface KeeperPayer {
+  agent: PayMasterAgent;
+  address?: string; // The payer, when the agent is its authorized executor (default: the agent's account)
+  coinType?: string;
+  fundingStrategyId?: number; // Yield strategy to withdraw from when the payer is short
+}
+
+export interface KeeperConfig {
+  payers: KeeperPayer[];
+  pollIntervalMs?: number; // Delay between polls (default: 60 seconds)
+  maxAttempts?: number; // Attempts per due payment before giving up (default: 5)
+  baseBackoffMs?: number; // First retry delay, doubled on each attempt (default: 30 seconds)
+  store?: StateStore<KeeperCheckpoint>; // Where the checkpoint is persisted
+  onExecuted?: (payment: ScheduledPayment, result: TransactionResult) => void;
+  onError?: (payment: ScheduledPayment | null, error: Error) => void;
+}
+
+/**
+ * The last execution attempt of a payment, keyed by its due time
+ */
+export interface ExecutionRecord {
+  dueTime: number; // next_payment_time the attempt was for
+  status: "pending" | "executed" | "retrying" | "failed";
+  attempts: number;
+  startedAt: number; // When the last attempt was submitted (ms)
+  nextAttemptAt: number; // Earliest time for another attempt (ms)
+  hash?: string;
+}
+
+export interface KeeperCheckpoint {
+  executions: Record<string, ExecutionRecord>; // Keyed by payer, coin type and payment ID
+}
+
+export interface KeeperRunSummary {
+  checked: number; // Active payments looked at
+  executed: number;
+  failed: number;
+}
+
+export class PaymentKeeper {
+  private payers: KeeperPayer[];
+  private pollIntervalMs: number;
+  private maxAttempts: number;
+  private baseBackoffMs: number;
+  private store: StateStore<KeeperCheckpoint>;
+  private onExecuted?: KeeperConfig["onExecuted"];
+  private onError?: KeeperConfig["onError"];
+  private checkpoint: KeeperCheckpoint | null = null;
+  private running = false;
+  private inFlight: Promise<KeeperRunSummary> | null = null; // The run in progress
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: KeeperConfig) {
+    this.payers = config.payers;
+    this.pollIntervalMs = config.pollIntervalMs ?? 60 * 1000;
+    this.maxAttempts = config.maxAttempts ?? 5;
+    this.baseBackoffMs = config.baseBackoffMs ?? 30 * 1000;
+    this.store = config.store ?? new MemoryStateStore();
+    this.onExecuted = config.onExecuted;
+    this.onError = config.onError;
+  }
+
+  /**
+   * Start polling for due payments until stop() is called
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    await this.loadCheckpoint();
+    this.running = true;
+    this.scheduleNextPoll(0);
+  }
+
+  /**
+   * Stop polling. An execution already in flight still completes.
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check every payer once and execute the payments that are due. A call
+   * made while a run is in progress (e.g. by the polling loop) joins that
+   * run instead of starting another.
+   * @returns What the run did
+   */
+  runOnce(): Promise<KeeperRunSummary> {
+    if (!this.inFlight) {
+      this.inFlight = this.run().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async run(): Promise<KeeperRunSummary> {
+    const checkpoint = await this.loadCheckpoint();
+    const summary: KeeperRunSummary = { checked: 0, executed: 0, failed: 0 };
+
+    for (const payer of this.payers) {
+      const coinType = payer.coinType ?? "0x1::aptos_coin::AptosCoin";
+      const payerAddress = payer.address ?? payer.agent.getAccountAddress();
+
+      let payments: ScheduledPayment[];
+      try {
+        payments = await payer.agent.listPayments(payerAddress, coinType);
+      } catch (error: any) {
+        this.onError?.(null, error);
+        continue;
+      }
+
+      this.pruneCheckpoint(checkpoint, payerAddress, coinType, payments);
+
+      for (const payment of payments) {
+        if (!payment.isActive) {
+          continue; // Cancelled schedules are never executed
+        }
+        summary.checked++;
+
+        const key = `${payerAddress}:${coinType}:${payment.paymentId}`;
+        const outcome = await this.processPayment(
+          payer,
+          payerAddress,
+          payment,
+          coinType,
+          key,
+          checkpoint
+        );
+
+        if (outcome === "executed") {
+          summary.executed++;
+        } else if (outcome === "failed") {
+          summary.failed++;
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Execute a single payment if it is due and not already being handled
+   * @returns "executed", "failed" or "skipped"
+   */
+  private async processPayment(
+    payer: KeeperPayer,
+    payerAddress: string,
+    payment: ScheduledPayment,
+    coinType: string,
+    key: string,
+    checkpoint: KeeperCheckpoint
+  ): Promise<"executed" | "failed" | "skipped"> {
+    const now = Date.now();
+    const previous = checkpoint.executions[key];
+
+    // An earlier attempt for the same due time is either done, given up on,
+    // or still inside its backoff or expiry window
+    if (previous && previous.dueTime === payment.nextPaymentTime) {
+      if (previous.status === "executed" || previous.status === "failed") {
+        return "skipped";
+      }
+      if (now < previous.nextAttemptAt) {
+        return "skipped";
+      }
+    }
+
+    try {
+      const isDue = await payer.agent.isPaymentDue(
+        payment.paymentId,
+        payerAddress,
+        coinType
+      );
+      if (!isDue) {
+        return "skipped";
+      }
+    } catch (error: any) {
+      this.onError?.(payment, error);
+      return "skipped";
+    }
+
+    const attempts =
+      previous && previous.dueTime === payment.nextPaymentTime
+        ? previous.attempts + 1
+        : 1;
+
+    // Record the attempt before submitting so that a restart never resubmits
+    // inside the expiry window
+    const record: ExecutionRecord = {
+      dueTime: payment.nextPaymentTime,
+      status: "pending",
+      attempts,
+      startedAt: now,
+      nextAttemptAt: now + SUBMISSION_EXPIRY_MS,
+    };
+    checkpoint.executions[key] = record;
+    await this.store.save(checkpoint);
+
+    try {
+      // Checked first, so that an underfunded payment costs no gas. The
+      // request ID lets the agent's intent ledger recognize a resubmission
+      // after a crash between submitting and checkpointing.
+      const result = await payer.agent.executePayment(
+        payerAddress,
+        payment.paymentId,
+        coinType,
+        {
+          checkFunding: true,
+          fundingStrategyId: payer.fundingStrategyId,
+          requestId: `${key}:${payment.nextPaymentTime}`,
+        }
+      );
+      record.hash = result.hash;
+
+      if (result.success) {
+        record.status = "executed";
+        await this.store.save(checkpoint);
+        this.onExecuted?.(payment, result);
+        return "executed";
+      }
+
+      // The transaction committed and aborted, so it can be retried right
+      // after the backoff
+      this.scheduleRetry(record, Date.now());
+      await this.store.save(checkpoint);
+      this.onError?.(
+        payment,
+        result.error ?? new Error(`Payment aborted: ${result.vmStatus}`)
+      );
+    } catch (error: any) {
+      // Nothing was submitted when funds are short; otherwise the outcome is
+      // unknown (e.g. the wait timed out), so the expiry window still applies
+      this.scheduleRetry(
+        record,
+        error instanceof InsufficientFundingError
+          ? Date.now()
+          : record.startedAt + SUBMISSION_EXPIRY_MS
+      );
+      await this.store.save(checkpoint);
+      this.onError?.(payment, error);
+    }
+
+    return record.status === "failed" ? "failed" : "skipped";
+  }
+
+  /**
+   * Back off exponentially, or give up once the attempts are used up
+   * @param record The execution record to update
+   * @param earliest The earliest time a retry is safe
+   */
+  private scheduleRetry(record: ExecutionRecord, earliest: number): void {
+    if (record.attempts >= this.maxAttempts) {
+      record.status = "failed";
+      return;
+    }
+
+    const backoff = this.baseBackoffMs * 2 ** (record.attempts - 1);
+    record.status = "retrying";
+    record.nextAttemptAt = Math.max(earliest, Date.now() + backoff);
+  }
+
+  /**
+   * Forget the records of a payer's payments that are no longer active, so
+   * the checkpoint only grows with the active schedules
+   * @param checkpoint The checkpoint to prune
+   * @param payerAddress The payer
+   * @param coinType The coin the payments were listed for
+   * @param payments The payer's current payments in that coin
+   */
+  private pruneCheckpoint(
+    checkpoint: KeeperCheckpoint,
+    payerAddress: string,
+    coinType: string,
+    payments: ScheduledPayment[]
+  ): void {
+    const prefix = `${payerAddress}:${coinType}:`;
+    const active = new Set(
+      payments
+        .filter((payment) => payment.isActive)
+        .map((payment) => `${prefix}${payment.paymentId}`)
+    );
+
+    for (const key of Object.keys(checkpoint.executions)) {
+      if (key.startsWith(prefix) && !active.has(key)) {
+        delete checkpoint.executions[key];
+      }
+    }
+  }
+
+  /**
+   * Load the persisted checkpoint once per keeper
+   */
+  private async loadCheckpoint(): Promise<KeeperCheckpoint> {
+    if (!this.checkpoint) {
+      this.checkpoint = (await this.store.load()) ?? { executions: {} };
+    }
+    return this.checkpoint;
+  }
+
+  /**
+   * Schedule the next poll while the keeper is running
+   * @param delayMs Delay before the poll
+   */
+  private scheduleNextPoll(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error: any) {
+        this.onError?.(null, error);
+      } finally {
+        if (this.running) {
+          this.scheduleNextPoll(this.pollIntervalMs);
+        }
+      }
+    }, delayMs);
+  }
+}
@@ -0,0 +1,503 @@
+import { AccountAddress, parseTypeTag } from "@aptos-labs/ts-sdk";
+import { isFungibleAsset } from "./CoinRegistry";
+import { PayMasterAgent, SimulationResult } from "./PayMasterAgent";
+
+/**
+ * A payroll entry as read from the import file, before validation
+ */
+export interface PayrollEntry {
+  recipient?: string;
+  amount?: string; // Base units, or display units with a symbol, e.g. "10 APT"
+  intervalSeconds?: string | number;
+  startTime?: string | number; // Unix timestamp (seconds), 0 or empty for now
+  coinType?: string;
+  line?: number; // 1-based line of the entry in a CSV file
+}
+
+/**
+ * A validated payroll row, ready to be scheduled
+ */
+export interface PayrollRow {
+  recipient: string;
+  amount: string; // Base units
+  intervalSeconds: number;
+  startTime: number;
+  coinType: string;
+}
+
+/**
+ * The validation outcome of a single entry
+ */
+export interface PayrollRowCheck {
+  index: number; // 1-based position of the entry in the import
+  line?: number; // 1-based line in the CSV file, when imported from CSV
+  entry: PayrollEntry;
+  row?: PayrollRow; // Only set when the entry is valid
+  errors: string[];
+}
+
+export interface PayrollDryRunRow extends PayrollRowCheck {
+  simulation?: SimulationResult;
+}
+
+/**
+ * What an import would do, without submitting anything
+ */
+export interface PayrollDryRunReport {
+  rows: PayrollDryRunRow[];
+  validCount: number;
+  invalidCount: number; // Rows failing validation or simulation
+  totals: Record<string, string>; // Base units per execution, keyed by coin type
+  estimatedFee: string; // Sum of simulated fees (octas)
+}
+
+export interface PayrollRowResult {
+  index: number;
+  line?: number;
+  requestId?: string; // Client request ID the schedule was created under
+  entry: PayrollEntry;
+  status: "created" | "failed" | "invalid";
+  hash?: string;
+  error?: string;
+}
+
+export interface PayrollImporterConfig {
+  minIntervalSeconds?: number; // Shortest allowed interval (default: 1 hour)
+  maxIntervalSeconds?: number; // Longest allowed interval (default: 366 days)
+  defaultCoinType?: string; // Used for entries without a coin type
+}
+
+export interface PayrollSubmitOptions {
+  importId?: string; // Prefix of the per-row request IDs (default: "payroll"); use a new one to create the same rows again
+}
+
+// Fields read from the import file
+type PayrollField = Exclude<keyof PayrollEntry, "line">;
+
+// A CSV record and the line it starts on
+interface CsvRecord {
+  fields: string[];
+  line: number;
+}
+
+// Column names accepted in CSV headers and JSON keys, after lowercasing and
+// dropping spaces, dashes and underscores
+const FIELD_ALIASES: Record<string, PayrollField> = {
+  recipient: "recipient",
+  address: "recipient",
+  amount: "amount",
+  interval: "intervalSeconds",
+  intervalseconds: "intervalSeconds",
+  starttime: "startTime",
+  start: "startTime",
+  cointype: "coinType",
+  coin: "coinType",
+};
+
+/**
+ * Split CSV text into records, honoring quoted fields
+ * @param text The CSV text
+ */
+function parseCsvRecords(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      record.push(field);
+      records.push({ fields: record, line: recordLine });
+      record = [];
+      field = "";
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("Unterminated quoted field in CSV");
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push({ fields: record, line: recordLine });
+  }
+
+  return records;
+}
+
+/**
+ * Map a column name to a payroll entry field
+ * @param name Column name or JSON key
+ */
+function toEntryField(name: string): PayrollField | undefined {
+  return FIELD_ALIASES[name.toLowerCase().replace(/[\s_-]/g, "")];
+}
+
+export class PayrollImporter {
+  private agent: PayMasterAgent;
+  private minIntervalSeconds: number;
+  private maxIntervalSeconds: number;
+  private defaultCoinType: string;
+
+  constructor(agent: PayMasterAgent, config: PayrollImporterConfig = {}) {
+    this.agent = agent;
+    this.minIntervalSeconds = config.minIntervalSeconds ?? 3600;
+    this.maxIntervalSeconds = config.maxIntervalSeconds ?? 86400 * 366;
+    this.defaultCoinType =
+      config.defaultCoinType ?? "0x1::aptos_coin::AptosCoin";
+  }
+
+  /**
+   * Parse payroll entries from CSV with a header row, e.g.
+   * "recipient,amount,interval_seconds,start_time,coin_type"
+   * @param text The CSV text
+   */
+  parseCsv(text: string): PayrollEntry[] {
+    const records = parseCsvRecords(text).filter((record) =>
+      record.fields.some((field) => field.trim() !== "")
+    );
+    if (records.length === 0) {
+      return [];
+    }
+
+    const [header, ...rows] = records;
+    const fields = header.fields.map(toEntryField);
+    const unknown = header.fields.filter((_, i) => !fields[i]);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown payroll columns: ${unknown.join(", ")}`);
+    }
+
+    return rows.map((row) => {
+      const entry: PayrollEntry = { line: row.line };
+      fields.forEach((field, i) => {
+        const value = row.fields[i]?.trim();
+        if (field && value) {
+          entry[field] = value;
+        }
+      });
+      return entry;
+    });
+  }
+
+  /**
+   * Parse payroll entries from a JSON array of objects
+   * @param text The JSON text
+   */
+  parseJson(text: string): PayrollEntry[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error: any) {
+      throw new Error(`Invalid payroll JSON: ${error.message}`);
+    }
+    if (!Array.isArray(data)) {
+      throw new Error("Payroll JSON must be an array of entries");
+    }
+
+    return data.map((item, index) => {
+      if (typeof item !== "object" || item === null) {
+        throw new Error(`Payroll entry ${index + 1} is not an object`);
+      }
+
+      const entry: PayrollEntry = {};
+      for (const [key, value] of Object.entries(item)) {
+        const field = toEntryField(key);
+        if (!field) {
+          throw new Error(
+            `Unknown payroll field "${key}" in entry ${index + 1}`
+          );
+        }
+        if (value !== null && value !== undefined && value !== "") {
+          entry[field] = String(value);
+        }
+      }
+      return entry;
+    });
+  }
+
+  /**
+   * Validate every entry without touching the chain beyond coin metadata
+   * @param entries The parsed entries
+   * @returns One check per entry, in order
+   */
+  async validate(entries: PayrollEntry[]): Promise<PayrollRowCheck[]> {
+    const checks: PayrollRowCheck[] = [];
+    for (const [index, entry] of entries.entries()) {
+      checks.push(await this.validateEntry(entry, index + 1));
+    }
+    return checks;
+  }
+
+  /**
+   * Validate and simulate every entry, without submitting anything
+   * @param entries The parsed entries
+   */
+  async dryRun(entries: PayrollEntry[]): Promise<PayrollDryRunReport> {
+    const checks = await this.validate(entries);
+    const rows: PayrollDryRunRow[] = [];
+    const totals: Record<string, bigint> = {};
+    let estimatedFee = BigInt(0);
+
+    for (const check of checks) {
+      const dryRunRow: PayrollDryRunRow = { ...check };
+      rows.push(dryRunRow);
+
+      if (!check.row) {
+        continue;
+      }
+
+      const { recipient, amount, intervalSeconds, startTime, coinType } =
+        check.row;
+      try {
+        const simulation = await this.agent.createScheduledPayment(
+          recipient,
+          amount,
+          intervalSeconds,
+          startTime,
+          coinType,
+          { simulate: true }
+        );
+        dryRunRow.simulation = simulation;
+
+        if (!simulation.success) {
+          dryRunRow.errors = [
+            ...dryRunRow.errors,
+            simulation.error?.message ?? simulation.vmStatus,
+          ];
+          continue;
+        }
+
+        estimatedFee += BigInt(simulation.estimatedFee);
+        totals[coinType] = (totals[coinType] ?? BigInt(0)) + BigInt(amount);
+      } catch (error: any) {
+        dryRunRow.errors = [...dryRunRow.errors, error.message];
+      }
+    }
+
+    const validCount = rows.filter((row) => row.errors.length === 0).length;
+
+    return {
+      rows,
+      validCount,
+      invalidCount: rows.length - validCount,
+      totals: Object.fromEntries(
+        Object.entries(totals).map(([coinType, total]) => [
+          coinType,
+          total.toString(),
+        ])
+      ),
+      estimatedFee: estimatedFee.toString(),
+    };
+  }
+
+  /**
+   * Validate the entries and create a schedule for each valid one.
+   * Invalid entries are reported and skipped; a failed submission does not
+   * stop the rest of the import.
+   *
+   * Each row is sent under a request ID derived from its contents, so
+   * submitting the same file again after a partial failure only creates the
+   * rows that did not commit. Pass a new importId to create them all again.
+   * @param entries The parsed entries
+   * @param options The import ID
+   * @returns One result per entry, in order
+   */
+  async submit(
+    entries: PayrollEntry[],
+    options: PayrollSubmitOptions = {}
+  ): Promise<PayrollRowResult[]> {
+    const checks = await this.validate(entries);
+    const results: PayrollRowResult[] = [];
+    const occurrences = new Map<string, number>();
+
+    for (const { index, line, entry, row, errors } of checks) {
+      if (!row) {
+        results.push({
+          index,
+          line,
+          entry,
+          status: "invalid",
+          error: errors.join("; "),
+        });
+        continue;
+      }
+
+      // Identical rows are told apart by how many came before them
+      const { recipient, amount, intervalSeconds, startTime, coinType } = row;
+      const key = [
+        recipient,
+        amount,
+        intervalSeconds,
+        startTime,
+        coinType,
+      ].join(":");
+      const occurrence = (occurrences.get(key) ?? 0) + 1;
+      occurrences.set(key, occurrence);
+      const requestId = `${options.importId ?? "payroll"}:${key}#${occurrence}`;
+
+      try {
+        const result = await this.agent.createScheduledPayment(
+          recipient,
+          amount,
+          intervalSeconds,
+          startTime,
+          coinType,
+          { requestId }
+        );
+
+        results.push(
+          result.success
+            ? {
+                index,
+                line,
+                requestId,
+                entry,
+                status: "created",
+                hash: result.hash,
+              }
+            : {
+                index,
+                line,
+                requestId,
+                entry,
+                status: "failed",
+                hash: result.hash,
+                error: result.error?.message ?? result.vmStatus,
+              }
+        );
+      } catch (error: any) {
+        results.push({
+          index,
+          line,
+          requestId,
+          entry,
+          status: "failed",
+          error: error.message,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Validate a single entry
+   * @param entry The parsed entry
+   * @param index Its position in the import
+   */
+  private async validateEntry(
+    entry: PayrollEntry,
+    index: number
+  ): Promise<PayrollRowCheck> {
+    const line = entry.line;
+    const errors: string[] = [];
+
+    // Recipient must be a full, non-zero account address
+    const recipient = entry.recipient?.trim() ?? "";
+    if (!recipient) {
+      errors.push("Missing recipient");
+    } else if (!AccountAddress.isValid({ input: recipient }).valid) {
+      errors.push(`Invalid recipient address: ${recipient}`);
+    } else if (AccountAddress.from(recipient).equals(AccountAddress.ZERO)) {
+      errors.push("Recipient cannot be the zero address");
+    }
+
+    // Payment schedules are generic over a coin type, so fungible asset
+    // addresses cannot be scheduled
+    const coinType = entry.coinType?.trim() || this.defaultCoinType;
+    let validCoinType = true;
+    try {
+      parseTypeTag(coinType);
+    } catch {
+      validCoinType = false;
+    }
+    if (!validCoinType || isFungibleAsset(coinType)) {
+      errors.push(`Invalid coin type: ${coinType}`);
+    }
+
+    // Amount must be positive, in base units or with a matching symbol
+    let amount: string | undefined;
+    if (!entry.amount?.trim()) {
+      errors.push("Missing amount");
+    } else if (validCoinType && !isFungibleAsset(coinType)) {
+      try {
+        amount = await this.agent
+          .getCoinRegistry()
+          .parseAmount(entry.amount, coinType);
+        if (BigInt(amount) <= BigInt(0)) {
+          errors.push("Amount must be greater than zero");
+        } else if (BigInt(amount) > BigInt("18446744073709551615")) {
+          errors.push("Amount does not fit in a u64");
+        }
+      } catch (error: any) {
+        errors.push(error.message);
+      }
+    }
+
+    const intervalSeconds = Number(entry.intervalSeconds);
+    if (entry.intervalSeconds === undefined) {
+      errors.push("Missing interval");
+    } else if (!Number.isInteger(intervalSeconds)) {
+      errors.push(`Invalid interval: ${entry.intervalSeconds}`);
+    } else if (
+      intervalSeconds < this.minIntervalSeconds ||
+      intervalSeconds > this.maxIntervalSeconds
+    ) {
+      errors.push(
+        `Interval must be between ${this.minIntervalSeconds} and ${this.maxIntervalSeconds} seconds`
+      );
+    }
+
+    // A start time in the past would make the payment due immediately
+    const startTime = Number(entry.startTime ?? 0);
+    const now = Math.floor(Date.now() / 1000);
+    if (!Number.isInteger(startTime) || startTime < 0) {
+      errors.push(`Invalid start time: ${entry.startTime}`);
+    } else if (startTime > 1e12) {
+      errors.push(
+        `Start time ${startTime} looks like milliseconds; use seconds`
+      );
+    } else if (startTime !== 0 && startTime < now) {
+      errors.push(`Start time ${startTime} is in the past`);
+    }
+
+    if (errors.length > 0 || amount === undefined) {
+      return { index, line, entry, errors };
+    }
+
+    return {
+      index,
+      line,
+      entry,
+      row: { recipient, amount, intervalSeconds, startTime, coinType },
+      errors,
+    };
+  }
+}
@@ -1,5 +1,27 @@
 import { LocalSigner } from "move-agent-kit";
 import { AptosAccount, Network } from "@aptos-labs/ts-sdk";
+import {
+  CashFlowForecaster,
+  CoinForecast,
+  requiredReserve,
+} from "./CashFlowForecaster";
+import { toBaseUnits, toDisplayUnits } from "./CoinRegistry";
+import {
+  checkThresholdOrder,
+  PayMasterAgent,
+  RISK_TYPE_CODES,
+  RiskThreshold,
+  RiskType,
+  TransactionOptions,
+  TransactionOutcome,
+} from "./PayMasterAgent";
+import {
+  FixtureDataProvider,
+  LendingPosition,
+  OnChainPaymentsProvider,
+  RiskDataProviders,
+  UpcomingPayment,
+} from "./RiskDataProviders";
 
 // Risk assessment types
 export interface LiquidityRisk {
@@ -8,6 +30,7 @@ export interface LiquidityRisk {
   liquidityRatio: number; // Percentage (0-100)
   riskLevel: string;
   timeUntilNextPayment: number; // Seconds
+  firstNegativeDate?: string | null; // UTC day the forecast balance goes negative
 }
 
 export interface CollateralRisk {
@@ -36,106 +59,304 @@ export interface RiskAssessment {
   recommendedActions: string[];
 }
 
+/**
+ * Risk level thresholds of each risk type. Liquidity and collateral are
+ * percentages, liquidation is in seconds.
+ */
+export type RiskThresholds = Record<RiskType, RiskThreshold>;
+
+// How far ahead the liquidity forecast looks
+const FORECAST_DAYS = 30;
+
+// On-chain units per engine unit: the risk_manager module stores
+// percentages in basis points
+const CHAIN_UNITS: Record<RiskType, number> = {
+  liquidity: 100,
+  collateral: 100,
+  liquidation: 1,
+};
+
 export class RiskAssessmentEngine {
   // Risk level thresholds
-  private readonly LIQUIDITY_MEDIUM_THRESHOLD = 80; // 80% of required
-  private readonly LIQUIDITY_HIGH_THRESHOLD = 50; // 50% of required
-  private readonly LIQUIDITY_CRITICAL_THRESHOLD = 20; // 20% of required
+  private thresholds: RiskThresholds = {
+    liquidity: {
+      medium: 80, // 80% of required
+      high: 50, // 50% of required
+      critical: 20, // 20% of required
+    },
+    collateral: {
+      medium: 150, // 150% collateral ratio
+      high: 125, // 125% collateral ratio
+      critical: 110, // 110% collateral ratio
+    },
+    liquidation: {
+      medium: 7 * 86400, // 7 days
+      high: 3 * 86400, // 3 days
+      critical: 1 * 86400, // 1 day
+    },
+  };
 
-  private readonly COLLATERAL_MEDIUM_THRESHOLD = 150; // 150% collateral ratio
-  private readonly COLLATERAL_HIGH_THRESHOLD = 125; // 125% collateral ratio
-  private readonly COLLATERAL_CRITICAL_THRESHOLD = 110; // 110% collateral ratio
+  // APT (display units) to keep liquid however little is due
+  private minLiquidityRequirement = "0";
 
-  private readonly LIQUIDATION_MEDIUM_THRESHOLD = 7 * 86400; // 7 days
-  private readonly LIQUIDATION_HIGH_THRESHOLD = 3 * 86400; // 3 days
-  private readonly LIQUIDATION_CRITICAL_THRESHOLD = 1 * 86400; // 1 day
+  private providers: RiskDataProviders;
+  private forecaster: CashFlowForecaster | null;
 
-  private mockData: {
-    payments: any[];
-    positions: any[];
+  // Data the assessments run on, as last loaded from the providers
+  private data: {
+    payments: UpcomingPayment[];
+    positions: LendingPosition[];
     prices: Record<string, number>;
     priceMovements: Record<string, number>; // Daily percentage change
+    forecast: CoinForecast | null; // Projected APT; liquidity risk falls back to payments without one
+  } = {
+    payments: [],
+    positions: [],
+    prices: {},
+    priceMovements: {},
+    forecast: null,
   };
 
-  constructor() {
-    // Mock data for demonstration - in a real implementation, this would be fetched from the blockchain
-    this.mockData = {
-      payments: [
-        {
-          id: 1,
-          recipient: "0x123",
-          amount: "100",
-          nextPaymentTime: Date.now() / 1000 + 86400 * 2, // 2 days from now
-          coin: "0x1::aptos_coin::AptosCoin",
-        },
-        {
-          id: 2,
-          recipient: "0x456",
-          amount: "50",
-          nextPaymentTime: Date.now() / 1000 + 86400 * 5, // 5 days from now
-          coin: "0x1::usdc::USDC",
-        },
-      ],
-      positions: [
-        {
-          protocol: "Aries",
-          borrowedAsset: "USDC",
-          borrowedAmount: "1000",
-          collateralAsset: "APT",
-          collateralAmount: "50",
-          liquidationThreshold: 125, // 125%
-        },
-        {
-          protocol: "Momentum",
-          borrowedAsset: "USDT",
-          borrowedAmount: "500",
-          collateralAsset: "APT",
-          collateralAmount: "35",
-          liquidationThreshold: 110, // 110%
-        },
-      ],
-      prices: {
-        APT: 10,
-        USDC: 1,
-        USDT: 1,
-      },
-      priceMovements: {
-        APT: -2.5, // 2.5% daily decrease
-        USDC: 0,
-        USDT: 0,
-      },
+  /**
+   * @param providers Where payments, positions and prices come from (default:
+   * payments from chain with an agent, otherwise the demo fixture)
+   * @param agent Reads the assessed account's scheduled payments into a
+   * cash-flow forecast, which liquidity risk is then measured against
+   */
+  constructor(providers?: Partial<RiskDataProviders>, agent?: PayMasterAgent) {
+    this.forecaster = agent ? new CashFlowForecaster(agent) : null;
+    const fixture = new FixtureDataProvider();
+    this.providers = {
+      payments:
+        providers?.payments ??
+        (agent ? new OnChainPaymentsProvider(agent) : fixture),
+      positions: providers?.positions ?? fixture,
+      prices: providers?.prices ?? fixture,
+    };
+  }
+
+  /**
+   * Replace some of the data providers
+   * @param providers The providers to replace
+   */
+  setDataProviders(providers: Partial<RiskDataProviders>): void {
+    this.providers = { ...this.providers, ...providers };
+  }
+
+  /**
+   * Load an account's payments, positions and the prices of their assets,
+   * and its cash-flow forecast when the engine has an agent. The assess*
+   * methods run on the data loaded last.
+   * @param account The account to assess
+   */
+  async loadData(account: string): Promise<void> {
+    const [payments, positions, cashFlow] = await Promise.all([
+      this.providers.payments.getUpcomingPayments(account),
+      this.providers.positions.getPositions(account),
+      this.forecaster?.forecast(FORECAST_DAYS, {
+        account,
+        coinTypes: ["0x1::aptos_coin::AptosCoin"],
+      }) ?? null,
+    ]);
+
+    const assets = [
+      ...new Set(
+        positions.flatMap((position) => [
+          position.borrowedAsset,
+          position.collateralAsset,
+        ])
+      ),
+    ];
+    const [prices, priceMovements] = await Promise.all([
+      this.providers.prices.getPrices(assets),
+      this.providers.prices.getPriceMovements(assets),
+    ]);
+
+    this.data = {
+      payments,
+      positions,
+      prices,
+      priceMovements,
+      forecast: cashFlow?.coins[0] ?? null,
     };
   }
 
   /**
-   * Set custom risk thresholds
+   * Set custom risk thresholds. Nothing changes unless every given set is
+   * ordered medium > high > critical.
    */
   setRiskThresholds(
-    liquidityThresholds?: { medium: number; high: number; critical: number },
-    collateralThresholds?: { medium: number; high: number; critical: number },
-    liquidationThresholds?: { medium: number; high: number; critical: number }
+    liquidityThresholds?: RiskThreshold,
+    collateralThresholds?: RiskThreshold,
+    liquidationThresholds?: RiskThreshold
   ): void {
+    const changes: Partial<RiskThresholds> = {};
     if (liquidityThresholds) {
-      this.LIQUIDITY_MEDIUM_THRESHOLD = liquidityThresholds.medium;
-      this.LIQUIDITY_HIGH_THRESHOLD = liquidityThresholds.high;
-      this.LIQUIDITY_CRITICAL_THRESHOLD = liquidityThresholds.critical;
+      changes.liquidity = { ...liquidityThresholds };
     }
-
     if (collateralThresholds) {
-      this.COLLATERAL_MEDIUM_THRESHOLD = collateralThresholds.medium;
-      this.COLLATERAL_HIGH_THRESHOLD = collateralThresholds.high;
-      this.COLLATERAL_CRITICAL_THRESHOLD = collateralThresholds.critical;
+      changes.collateral = { ...collateralThresholds };
     }
-
     if (liquidationThresholds) {
-      this.LIQUIDATION_MEDIUM_THRESHOLD = liquidationThresholds.medium;
-      this.LIQUIDATION_HIGH_THRESHOLD = liquidationThresholds.high;
-      this.LIQUIDATION_CRITICAL_THRESHOLD = liquidationThresholds.critical;
+      changes.liquidation = { ...liquidationThresholds };
     }
+
+    Object.values(changes).forEach(checkThresholdOrder);
+    this.thresholds = { ...this.thresholds, ...changes };
   }
 
   /**
-   * Assess liquidity risk
+   * Get the current risk thresholds
+   */
+  getRiskThresholds(): RiskThresholds {
+    return {
+      liquidity: { ...this.thresholds.liquidity },
+      collateral: { ...this.thresholds.collateral },
+      liquidation: { ...this.thresholds.liquidation },
+    };
+  }
+
+  /**
+   * Set the APT to keep liquid however little is due; liquidity risk is
+   * measured against at least this much while payments are upcoming
+   * @param amount Display units, e.g. "25"
+   */
+  setMinLiquidityRequirement(amount: string): void {
+    if (!/^\d+(\.\d+)?$/.test(amount.trim())) {
+      throw new Error(`Invalid minimum liquidity requirement: ${amount}`);
+    }
+    this.minLiquidityRequirement = amount.trim();
+  }
+
+  /**
+   * Get the APT to keep liquid, in display units
+   */
+  getMinLiquidityRequirement(): string {
+    return this.minLiquidityRequirement;
+  }
+
+  /**
+   * Replace the thresholds and minimum liquidity requirement with those of
+   * an account's on-chain risk profile
+   * @param agent The agent to read the risk_manager module through
+   * @param account The account (defaults to the agent's account)
+   * @returns The loaded thresholds
+   */
+  async loadRiskThresholds(
+    agent: PayMasterAgent,
+    account: string = agent.getAccountAddress()
+  ): Promise<RiskThresholds> {
+    const types = Object.keys(RISK_TYPE_CODES) as RiskType[];
+    const [onChain, requirement, { decimals }] = await Promise.all([
+      Promise.all(
+        types.map((type) =>
+          agent.getRiskThreshold(RISK_TYPE_CODES[type], account)
+        )
+      ),
+      agent.getMinLiquidityRequirement(account),
+      agent.getCoinRegistry().resolve("0x1::aptos_coin::AptosCoin"),
+    ]);
+
+    types.forEach((type, index) => {
+      const unit = CHAIN_UNITS[type];
+      this.thresholds[type] = {
+        medium: onChain[index].medium / unit,
+        high: onChain[index].high / unit,
+        critical: onChain[index].critical / unit,
+      };
+    });
+    this.minLiquidityRequirement = toDisplayUnits(requirement, decimals);
+
+    return this.getRiskThresholds();
+  }
+
+  /**
+   * Write the thresholds and minimum liquidity requirement to the agent's
+   * on-chain risk profile. Only values that differ from chain are sent, and
+   * nothing is sent unless every threshold is correctly ordered in on-chain
+   * units.
+   * @param agent The agent to send the transactions through
+   * @param options Transaction options; a requestId gets a suffix per transaction
+   * @returns The outcome of each transaction sent
+   */
+  async saveRiskThresholds<O extends TransactionOptions = TransactionOptions>(
+    agent: PayMasterAgent,
+    options?: O
+  ): Promise<TransactionOutcome<O>[]> {
+    const account = agent.getAccountAddress();
+    const types = Object.keys(RISK_TYPE_CODES) as RiskType[];
+
+    // Percentages are rounded to whole basis points, which may tie them
+    const local = types.map((type) => {
+      const unit = CHAIN_UNITS[type];
+      const threshold = {
+        medium: Math.round(this.thresholds[type].medium * unit),
+        high: Math.round(this.thresholds[type].high * unit),
+        critical: Math.round(this.thresholds[type].critical * unit),
+      };
+      try {
+        checkThresholdOrder(threshold);
+      } catch (error: any) {
+        throw new Error(`Invalid ${type} thresholds: ${error.message}`);
+      }
+      return threshold;
+    });
+
+    const [onChain, requirement, { decimals }] = await Promise.all([
+      Promise.all(
+        types.map((type) =>
+          agent.getRiskThreshold(RISK_TYPE_CODES[type], account)
+        )
+      ),
+      agent.getMinLiquidityRequirement(account),
+      agent.getCoinRegistry().resolve("0x1::aptos_coin::AptosCoin"),
+    ]);
+
+    const outcomes: TransactionOutcome<O>[] = [];
+    const optionsFor = (suffix: string): O | undefined =>
+      options?.requestId
+        ? { ...options, requestId: `${options.requestId}:${suffix}` }
+        : options;
+
+    for (let index = 0; index < types.length; index++) {
+      const type = types[index];
+      const { medium, high, critical } = local[index];
+      const current = onChain[index];
+      if (
+        medium === current.medium &&
+        high === current.high &&
+        critical === current.critical
+      ) {
+        continue;
+      }
+      outcomes.push(
+        await agent.updateRiskThreshold(
+          RISK_TYPE_CODES[type],
+          medium,
+          high,
+          critical,
+          optionsFor(type)
+        )
+      );
+    }
+
+    const baseRequirement = toBaseUnits(this.minLiquidityRequirement, decimals);
+    if (baseRequirement !== requirement) {
+      outcomes.push(
+        await agent.updateMinLiquidityRequirement(
+          baseRequirement,
+          "0x1::aptos_coin::AptosCoin",
+          optionsFor("min_liquidity")
+        )
+      );
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Assess liquidity risk against the loaded cash-flow forecast, so that every
+   * payment due in its window counts, or the loaded payments without one
    * @param availableLiquidity Available liquidity in the account
    * @returns Liquidity risk assessment
    */
@@ -145,19 +366,29 @@ export class RiskAssessmentEngine {
     // Calculate total required liquidity for upcoming payments
     let requiredLiquidity = 0;
     let nextPaymentTime = Number.MAX_SAFE_INTEGER;
-
-    this.mockData.payments.forEach((payment) => {
-      if (payment.coin === "0x1::aptos_coin::AptosCoin") {
-        requiredLiquidity += parseFloat(payment.amount);
-        if (payment.nextPaymentTime < nextPaymentTime) {
-          nextPaymentTime = payment.nextPaymentTime;
+    const forecast = this.data.forecast;
+
+    if (forecast) {
+      requiredLiquidity = requiredReserve(forecast);
+      nextPaymentTime = forecast.outflows[0]?.dueTime ?? nextPaymentTime;
+    } else {
+      this.data.payments.forEach((payment) => {
+        if (payment.coin === "0x1::aptos_coin::AptosCoin") {
+          requiredLiquidity += parseFloat(payment.amount);
+          if (payment.nextPaymentTime < nextPaymentTime) {
+            nextPaymentTime = payment.nextPaymentTime;
+          }
         }
-      }
-    });
+      });
+    }
 
     if (requiredLiquidity === 0) {
       return null; // No upcoming payments that require liquidity
     }
+    requiredLiquidity = Math.max(
+      requiredLiquidity,
+      parseFloat(this.minLiquidityRequirement)
+    );
 
     // Calculate liquidity ratio (as percentage)
     const liquidityRatio = Math.min(
@@ -167,11 +398,11 @@ export class RiskAssessmentEngine {
 
     // Determine risk level
     let riskLevel = "Low";
-    if (liquidityRatio <= this.LIQUIDITY_CRITICAL_THRESHOLD) {
+    if (liquidityRatio <= this.thresholds.liquidity.critical) {
       riskLevel = "Critical";
-    } else if (liquidityRatio <= this.LIQUIDITY_HIGH_THRESHOLD) {
+    } else if (liquidityRatio <= this.thresholds.liquidity.high) {
       riskLevel = "High";
-    } else if (liquidityRatio <= this.LIQUIDITY_MEDIUM_THRESHOLD) {
+    } else if (liquidityRatio <= this.thresholds.liquidity.medium) {
       riskLevel = "Medium";
     }
 
@@ -184,6 +415,7 @@ export class RiskAssessmentEngine {
       liquidityRatio,
       riskLevel,
       timeUntilNextPayment,
+      firstNegativeDate: forecast?.firstNegativeDate ?? null,
     };
   }
 
@@ -192,7 +424,7 @@ export class RiskAssessmentEngine {
    * @returns Collateral risk assessment
    */
   assessCollateralRisk(): CollateralRisk | null {
-    if (this.mockData.positions.length === 0) {
+    if (this.data.positions.length === 0) {
       return null; // No active positions
     }
 
@@ -200,13 +432,13 @@ export class RiskAssessmentEngine {
     let riskiestPosition = null;
     let lowestCollateralRatio = Number.MAX_SAFE_INTEGER;
 
-    for (const position of this.mockData.positions) {
+    for (const position of this.data.positions) {
       const borrowedAmount = parseFloat(position.borrowedAmount);
       const collateralAmount = parseFloat(position.collateralAmount);
       const borrowedValue =
-        borrowedAmount * this.mockData.prices[position.borrowedAsset];
+        borrowedAmount * this.data.prices[position.borrowedAsset];
       const collateralValue =
-        collateralAmount * this.mockData.prices[position.collateralAsset];
+        collateralAmount * this.data.prices[position.collateralAsset];
 
       const collateralRatio = (collateralValue / borrowedValue) * 100;
 
@@ -222,11 +454,11 @@ export class RiskAssessmentEngine {
 
     // Determine risk level
     let riskLevel = "Low";
-    if (lowestCollateralRatio <= this.COLLATERAL_CRITICAL_THRESHOLD) {
+    if (lowestCollateralRatio <= this.thresholds.collateral.critical) {
       riskLevel = "Critical";
-    } else if (lowestCollateralRatio <= this.COLLATERAL_HIGH_THRESHOLD) {
+    } else if (lowestCollateralRatio <= this.thresholds.collateral.high) {
       riskLevel = "High";
-    } else if (lowestCollateralRatio <= this.COLLATERAL_MEDIUM_THRESHOLD) {
+    } else if (lowestCollateralRatio <= this.thresholds.collateral.medium) {
       riskLevel = "Medium";
     }
 
@@ -244,7 +476,7 @@ export class RiskAssessmentEngine {
    * @returns Liquidation risk assessment
    */
   assessLiquidationRisk(): LiquidationRisk | null {
-    if (this.mockData.positions.length === 0) {
+    if (this.data.positions.length === 0) {
       return null; // No active positions
     }
 
@@ -253,13 +485,13 @@ export class RiskAssessmentEngine {
     let shortestTimeToLiquidation = Number.MAX_SAFE_INTEGER;
     let closestLiquidationDetails = null;
 
-    for (const position of this.mockData.positions) {
+    for (const position of this.data.positions) {
       const borrowedAmount = parseFloat(position.borrowedAmount);
       const collateralAmount = parseFloat(position.collateralAmount);
       const borrowedValue =
-        borrowedAmount * this.mockData.prices[position.borrowedAsset];
+        borrowedAmount * this.data.prices[position.borrowedAsset];
       const collateralValue =
-        collateralAmount * this.mockData.prices[position.collateralAsset];
+        collateralAmount * this.data.prices[position.collateralAsset];
 
       const currentRatio = (collateralValue / borrowedValue) * 100;
       const liquidationThreshold = position.liquidationThreshold;
@@ -267,12 +499,12 @@ export class RiskAssessmentEngine {
       // Calculate liquidation price of the collateral asset
       const liquidationPrice =
         (borrowedValue * liquidationThreshold) / 100 / collateralAmount;
-      const currentPrice = this.mockData.prices[position.collateralAsset];
+      const currentPrice = this.data.prices[position.collateralAsset];
       const priceGap = ((currentPrice - liquidationPrice) / currentPrice) * 100;
 
       // Estimate time to liquidation based on price movement
       const dailyPriceChange =
-        this.mockData.priceMovements[position.collateralAsset];
+        this.data.priceMovements[position.collateralAsset];
 
       let estimatedTimeToLiquidation;
       if (dailyPriceChange >= 0 || priceGap <= 0) {
@@ -302,11 +534,13 @@ export class RiskAssessmentEngine {
 
     // Determine risk level
     let riskLevel = "Low";
-    if (shortestTimeToLiquidation <= this.LIQUIDATION_CRITICAL_THRESHOLD) {
+    if (shortestTimeToLiquidation <= this.thresholds.liquidation.critical) {
       riskLevel = "Critical";
-    } else if (shortestTimeToLiquidation <= this.LIQUIDATION_HIGH_THRESHOLD) {
+    } else if (shortestTimeToLiquidation <= this.thresholds.liquidation.high) {
       riskLevel = "High";
-    } else if (shortestTimeToLiquidation <= this.LIQUIDATION_MEDIUM_THRESHOLD) {
+    } else if (
+      shortestTimeToLiquidation <= this.thresholds.liquidation.medium
+    ) {
       riskLevel = "Medium";
     }
 
@@ -349,6 +583,12 @@ export class RiskAssessmentEngine {
           "Urgent: Payment due in less than 24 hours with insufficient funds."
         );
       }
+
+      if (assessment.liquidityRisk.firstNegativeDate) {
+        recommendations.push(
+          `Scheduled payments are projected to overdraw your balance on ${assessment.liquidityRisk.firstNegativeDate}.`
+        );
+      }
     }
 
     // Collateral risk recommendations
@@ -404,13 +644,26 @@ export class RiskAssessmentEngine {
   }
 
   /**
-   * Perform comprehensive risk assessment
-   * @param availableLiquidity Available liquidity in the account
+   * Perform comprehensive risk assessment of an account on fresh data
+   * @param account The account to assess
+   * @param availableLiquidity Available APT, in display units (default: the
+   * account's balance from the payments provider)
    * @returns Complete risk assessment
    */
-  performRiskAssessment(availableLiquidity: string): RiskAssessment {
+  async performRiskAssessment(
+    account: string,
+    availableLiquidity?: string
+  ): Promise<RiskAssessment> {
+    await this.loadData(account);
+    const liquidity =
+      availableLiquidity ??
+      (await this.providers.payments.getBalance(
+        account,
+        "0x1::aptos_coin::AptosCoin"
+      ));
+
     // Assess individual risk factors
-    const liquidityRisk = this.assessLiquidityRisk(availableLiquidity);
+    const liquidityRisk = this.assessLiquidityRisk(liquidity);
     const collateralRisk = this.assessCollateralRisk();
     const liquidationRisk = this.assessLiquidationRisk();
 
@@ -444,14 +697,4 @@ export class RiskAssessmentEngine {
 
     return assessment;
   }
-
-  /**
-   * Update mock data for testing (would be replaced with real data in production)
-   */
-  updateMockData(data: Partial<typeof this.mockData>): void {
-    this.mockData = {
-      ...this.mockData,
-      ...data,
-    };
-  }
 }
@@ -0,0 +1,224 @@
+import { CashFlowForecaster } from "./CashFlowForecaster";
+import { toDisplayUnits } from "./CoinRegistry";
+import { PayMasterAgent } from "./PayMasterAgent";
+
+/**
+ * A payment the account has to cover
+ */
+export interface UpcomingPayment {
+  id: number;
+  recipient: string;
+  amount: string; // Display units, e.g. "10.5"
+  nextPaymentTime: number; // Unix timestamp (seconds)
+  coin: string; // Coin type
+}
+
+/**
+ * A borrow position on a lending protocol
+ */
+export interface LendingPosition {
+  protocol: string;
+  borrowedAsset: string; // Symbol, e.g. "USDC"
+  borrowedAmount: string; // Display units
+  collateralAsset: string; // Symbol, e.g. "APT"
+  collateralAmount: string; // Display units
+  liquidationThreshold: number; // Collateral ratio (%) at which it is liquidated
+}
+
+/**
+ * Supplies the payments and balances liquidity risk is measured against
+ */
+export interface PaymentsProvider {
+  getUpcomingPayments(account: string): Promise<UpcomingPayment[]>;
+  getBalance(account: string, coin: string): Promise<string>; // Display units
+}
+
+/**
+ * Supplies an account's lending positions
+ */
+export interface PositionsProvider {
+  getPositions(account: string): Promise<LendingPosition[]>;
+}
+
+/**
+ * Supplies asset prices, keyed by symbol
+ */
+export interface PriceOracle {
+  getPrices(assets: string[]): Promise<Record<string, number>>; // USD
+  getPriceMovements(assets: string[]): Promise<Record<string, number>>; // Daily percentage change
+}
+
+/**
+ * Where RiskAssessmentEngine gets its data
+ */
+export interface RiskDataProviders {
+  payments: PaymentsProvider;
+  positions: PositionsProvider;
+  prices: PriceOracle;
+}
+
+/**
+ * Fixed data for a FixtureDataProvider
+ */
+export interface RiskFixture {
+  payments: UpcomingPayment[];
+  balances: Record<string, string>; // Display units, keyed by coin type
+  positions: LendingPosition[];
+  prices: Record<string, number>;
+  priceMovements: Record<string, number>;
+}
+
+/**
+ * Sample data for demos, with payments due 2 and 5 days from now
+ */
+export function demoRiskFixture(): RiskFixture {
+  return {
+    payments: [
+      {
+        id: 1,
+        recipient: "0x123",
+        amount: "100",
+        nextPaymentTime: Date.now() / 1000 + 86400 * 2, // 2 days from now
+        coin: "0x1::aptos_coin::AptosCoin",
+      },
+      {
+        id: 2,
+        recipient: "0x456",
+        amount: "50",
+        nextPaymentTime: Date.now() / 1000 + 86400 * 5, // 5 days from now
+        coin: "0x1::usdc::USDC",
+      },
+    ],
+    balances: {
+      "0x1::aptos_coin::AptosCoin": "500",
+    },
+    positions: [
+      {
+        protocol: "Aries",
+        borrowedAsset: "USDC",
+        borrowedAmount: "1000",
+        collateralAsset: "APT",
+        collateralAmount: "50",
+        liquidationThreshold: 125, // 125%
+      },
+      {
+        protocol: "Momentum",
+        borrowedAsset: "USDT",
+        borrowedAmount: "500",
+        collateralAsset: "APT",
+        collateralAmount: "35",
+        liquidationThreshold: 110, // 110%
+      },
+    ],
+    prices: {
+      APT: 10,
+      USDC: 1,
+      USDT: 1,
+    },
+    priceMovements: {
+      APT: -2.5, // 2.5% daily decrease
+      USDC: 0,
+      USDT: 0,
+    },
+  };
+}
+
+/**
+ * Serves fixed data for every account, e.g. for tests and demos
+ */
+export class FixtureDataProvider
+  implements PaymentsProvider, PositionsProvider, PriceOracle
+{
+  private fixture: RiskFixture;
+
+  constructor(fixture: RiskFixture = demoRiskFixture()) {
+    this.fixture = fixture;
+  }
+
+  async getUpcomingPayments(): Promise<UpcomingPayment[]> {
+    return this.fixture.payments.map((payment) => ({ ...payment }));
+  }
+
+  async getBalance(_account: string, coin: string): Promise<string> {
+    return this.fixture.balances[coin] ?? "0";
+  }
+
+  async getPositions(): Promise<LendingPosition[]> {
+    return this.fixture.positions.map((position) => ({ ...position }));
+  }
+
+  async getPrices(assets: string[]): Promise<Record<string, number>> {
+    return pick(this.fixture.prices, assets);
+  }
+
+  async getPriceMovements(assets: string[]): Promise<Record<string, number>> {
+    return pick(this.fixture.priceMovements, assets);
+  }
+}
+
+export interface OnChainPaymentsProviderConfig {
+  coinTypes?: string[]; // Coins whose payments are read (default: APT)
+  horizonDays?: number; // How far ahead recurrences are listed (default: 30)
+}
+
+/**
+ * Reads an account's scheduled payments from the payment_automation module.
+ * Each recurrence within the horizon is listed as its own payment.
+ */
+export class OnChainPaymentsProvider implements PaymentsProvider {
+  private agent: PayMasterAgent;
+  private forecaster: CashFlowForecaster;
+  private coinTypes: string[];
+  private horizonDays: number;
+
+  constructor(
+    agent: PayMasterAgent,
+    config: OnChainPaymentsProviderConfig = {}
+  ) {
+    this.agent = agent;
+    this.forecaster = new CashFlowForecaster(agent);
+    this.coinTypes = config.coinTypes ?? ["0x1::aptos_coin::AptosCoin"];
+    this.horizonDays = config.horizonDays ?? 30;
+  }
+
+  async getUpcomingPayments(account: string): Promise<UpcomingPayment[]> {
+    const { coins } = await this.forecaster.forecast(this.horizonDays, {
+      account,
+      coinTypes: this.coinTypes,
+    });
+
+    return coins.flatMap((forecast) =>
+      forecast.outflows.map((outflow) => ({
+        id: outflow.paymentId,
+        recipient: outflow.recipient,
+        amount: toDisplayUnits(outflow.amount, forecast.decimals),
+        nextPaymentTime: outflow.dueTime,
+        coin: forecast.coinType,
+      }))
+    );
+  }
+
+  async getBalance(account: string, coin: string): Promise<string> {
+    const [balance, { decimals }] = await Promise.all([
+      this.agent.getBalance(coin, account),
+      this.agent.getCoinRegistry().resolve(coin),
+    ]);
+    return toDisplayUnits(balance, decimals);
+  }
+}
+
+/**
+ * Keep the entries of a record for the given keys
+ */
+function pick(
+  values: Record<string, number>,
+  keys: string[]
+): Record<string, number> {
+  const picked: Record<string, number> = {};
+  for (const key of keys) {
+    if (key in values) {
+      picked[key] = values[key];
+    }
+  }
+  return picked;
+}
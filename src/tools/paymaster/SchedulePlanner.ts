@@ -0,0 +1,640 @@
+import { ScheduledPayment } from "./PayMasterAgent";
+
+/**
+ * Pay on one day of every month, e.g. { kind: "monthly", day: "last",
+ * businessDay: "previous" } for the last business day
+ */
+export interface MonthlyRule {
+  kind: "monthly";
+  day: number | "last"; // 1-31; short months use their last day
+  businessDay?: "previous" | "next"; // Move weekend dates to a weekday
+  hour?: number; // 0-23 (default: 0)
+  minute?: number; // 0-59 (default: 0)
+  timeZone?: string; // IANA time zone, e.g. "Europe/Berlin" (default: UTC)
+}
+
+/**
+ * Pay on some days of every week
+ */
+export interface WeeklyRule {
+  kind: "weekly";
+  weekdays: number[]; // 0 (Sunday) to 6 (Saturday)
+  hour?: number;
+  minute?: number;
+  timeZone?: string;
+}
+
+/**
+ * Pay on a cron schedule: "minute hour day-of-month month day-of-week".
+ * Fields accept *, lists, ranges, steps and names (JAN, MON); the
+ * day-of-month field also accepts L for the last day of the month.
+ */
+export interface CronRule {
+  kind: "cron";
+  expression: string; // e.g. "0 9 1,15 * *"
+  timeZone?: string;
+}
+
+export type CalendarRule = MonthlyRule | WeeklyRule | CronRule;
+
+/**
+ * The shortest and longest time between two occurrences of a rule
+ */
+export interface CalendarPeriod {
+  minSeconds: number;
+  maxSeconds: number;
+}
+
+// A rule reduced to the days it matches and the local times on those days
+interface CompiledRule {
+  timeZone: string;
+  times: [number, number][]; // [hour, minute], sorted
+  matchesDay(day: number): boolean; // Days since the Unix epoch
+}
+
+const SECONDS_PER_DAY = 86400;
+
+// How far ahead to look for the next occurrence, enough for "29 February"
+const MAX_SEARCH_DAYS = 366 * 8;
+
+// More than any daylight saving change, so the UTC offset is only checked
+// this far either side of the start of a search
+const MAX_OFFSET_CHANGE_SECONDS = 3 * 3600;
+
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a formatter for local times in a time zone
+ * @param timeZone IANA time zone
+ * @throws RangeError if the time zone is unknown
+ */
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get the local date and time of a timestamp, as if the local time were UTC
+ * @param timestamp Unix timestamp (seconds)
+ * @param timeZone IANA time zone
+ */
+function toLocalSeconds(timestamp: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatterFor(timeZone).formatToParts(
+    new Date(timestamp * 1000)
+  )) {
+    parts[type] = Number(value);
+  }
+
+  return (
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second
+    ) / 1000
+  );
+}
+
+/**
+ * Convert a local date and time to a Unix timestamp. Repeated local times
+ * resolve to the first of them; local times skipped by a daylight saving
+ * change move forward by the length of the gap.
+ * @param localSeconds Local date and time, as if it were UTC
+ * @param timeZone IANA time zone
+ */
+function fromLocalSeconds(localSeconds: number, timeZone: string): number {
+  // Try the offsets a day before and after, which differ across a daylight
+  // saving change; the earlier offset gives the first of repeated times
+  const candidates = [-SECONDS_PER_DAY, SECONDS_PER_DAY].map((shift) => {
+    const sample = localSeconds + shift;
+    return localSeconds - (toLocalSeconds(sample, timeZone) - sample);
+  });
+
+  const valid = candidates.filter(
+    (timestamp) => toLocalSeconds(timestamp, timeZone) === localSeconds
+  );
+  return valid.length > 0 ? Math.min(...valid) : Math.max(...candidates);
+}
+
+/**
+ * Get the year, month (1-12), day of month and weekday (0 = Sunday) of a day
+ * @param day Days since the Unix epoch
+ */
+function toDate(day: number): {
+  year: number;
+  month: number;
+  date: number;
+  weekday: number;
+} {
+  const value = new Date(day * SECONDS_PER_DAY * 1000);
+  return {
+    year: value.getUTCFullYear(),
+    month: value.getUTCMonth() + 1,
+    date: value.getUTCDate(),
+    weekday: value.getUTCDay(),
+  };
+}
+
+/**
+ * Get the days since the Unix epoch of a date; out-of-range months and days
+ * roll over
+ */
+function toDay(year: number, month: number, date: number): number {
+  return Date.UTC(year, month - 1, date) / (SECONDS_PER_DAY * 1000);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return toDate(toDay(year, month + 1, 0)).date;
+}
+
+/**
+ * Check that a value is an integer within bounds
+ */
+function assertInRange(
+  value: unknown,
+  min: number,
+  max: number,
+  name: string
+): asserts value is number {
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < min ||
+    value > max
+  ) {
+    throw new Error(`${name} must be an integer from ${min} to ${max}`);
+  }
+}
+
+/**
+ * Get the day a monthly rule pays in a month
+ * @returns Days since the Unix epoch
+ */
+function monthlyPayDay(rule: MonthlyRule, year: number, month: number): number {
+  const last = daysInMonth(year, month);
+  const day = toDay(
+    year,
+    month,
+    rule.day === "last" ? last : Math.min(rule.day, last)
+  );
+
+  const { weekday } = toDate(day);
+  if (rule.businessDay === "previous") {
+    return day - (weekday === 6 ? 1 : weekday === 0 ? 2 : 0);
+  }
+  if (rule.businessDay === "next") {
+    return day + (weekday === 6 ? 2 : weekday === 0 ? 1 : 0);
+  }
+  return day;
+}
+
+/**
+ * Parse one cron field into the values it matches
+ * @param field The field text, e.g. "1-5" or "*\/15"
+ * @param min Lowest allowed value
+ * @param max Highest allowed value
+ * @param names Names for values from min upwards, e.g. month names
+ */
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = []
+): number[] {
+  const toValue = (text: string): number => {
+    const index = names.indexOf(text.toUpperCase());
+    const value = index >= 0 ? index + min : Number(text);
+    if (text === "" || !Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`Invalid value "${text}" in cron field "${field}"`);
+    }
+    return value;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in cron field "${field}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== "*" && range !== "?") {
+      const [from, to] = range.split("-");
+      start = toValue(from);
+      // "5/10" runs from 5 to the end of the range
+      end =
+        to !== undefined ? toValue(to) : stepText !== undefined ? max : start;
+    }
+    if (start > end) {
+      throw new Error(`Invalid range in cron field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a cron expression
+ * @param expression "minute hour day-of-month month day-of-week"
+ */
+function compileCron(expression: string): Omit<CompiledRule, "timeZone"> {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Cron expression must have 5 fields, got ${fields.length}: "${expression}"`
+    );
+  }
+  const [minuteField, hourField, dayField, monthField, weekdayField] = fields;
+
+  const minutes = parseCronField(minuteField, 0, 59);
+  const hours = parseCronField(hourField, 0, 23);
+  const months = new Set(parseCronField(monthField, 1, 12, MONTH_NAMES));
+  // 7 is Sunday as well as 0
+  const weekdays = new Set(
+    parseCronField(weekdayField, 0, 7, WEEKDAY_NAMES).map((day) => day % 7)
+  );
+
+  const dayParts = dayField.split(",");
+  const lastDay = dayParts.includes("L");
+  const otherDays = dayParts.filter((part) => part !== "L");
+  const days = new Set(
+    otherDays.length > 0 ? parseCronField(otherDays.join(","), 1, 31) : []
+  );
+
+  // As in standard cron, a day restricted in both fields matches either
+  const anyDay = dayField === "*" || dayField === "?";
+  const anyWeekday = weekdayField === "*" || weekdayField === "?";
+
+  return {
+    times: hours.flatMap((hour) =>
+      minutes.map((minute): [number, number] => [hour, minute])
+    ),
+    matchesDay(day: number): boolean {
+      const { year, month, date, weekday } = toDate(day);
+      if (!months.has(month)) {
+        return false;
+      }
+
+      const dayMatches =
+        days.has(date) || (lastDay && date === daysInMonth(year, month));
+      const weekdayMatches = weekdays.has(weekday);
+      if (anyDay && anyWeekday) {
+        return true;
+      }
+      if (anyDay) {
+        return weekdayMatches;
+      }
+      if (anyWeekday) {
+        return dayMatches;
+      }
+      return dayMatches || weekdayMatches;
+    },
+  };
+}
+
+/**
+ * Validate a rule and reduce it to matching days and times
+ * @param rule The calendar rule
+ * @throws Error if the rule is invalid
+ */
+function compileRule(rule: CalendarRule): CompiledRule {
+  const timeZone = rule.timeZone ?? "UTC";
+  try {
+    formatterFor(timeZone);
+  } catch {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+
+  if (rule.kind === "cron") {
+    if (typeof rule.expression !== "string") {
+      throw new Error("Cron rule needs an expression");
+    }
+    return { timeZone, ...compileCron(rule.expression) };
+  }
+
+  const hour = rule.hour ?? 0;
+  const minute = rule.minute ?? 0;
+  assertInRange(hour, 0, 23, "Hour");
+  assertInRange(minute, 0, 59, "Minute");
+  const times: [number, number][] = [[hour, minute]];
+
+  if (rule.kind === "monthly") {
+    if (rule.day !== "last") {
+      assertInRange(rule.day, 1, 31, "Day of month");
+    }
+    if (
+      rule.businessDay !== undefined &&
+      rule.businessDay !== "previous" &&
+      rule.businessDay !== "next"
+    ) {
+      throw new Error(`Invalid business day adjustment: ${rule.businessDay}`);
+    }
+
+    return {
+      timeZone,
+      times,
+      matchesDay(day: number): boolean {
+        // Business day adjustments can move a pay day into a neighbouring month
+        const { year, month } = toDate(day);
+        return [-1, 0, 1].some((offset) => {
+          const { year: y, month: m } = toDate(toDay(year, month + offset, 1));
+          return monthlyPayDay(rule, y, m) === day;
+        });
+      },
+    };
+  }
+
+  if (rule.kind === "weekly") {
+    if (!Array.isArray(rule.weekdays) || rule.weekdays.length === 0) {
+      throw new Error("Weekly rule needs at least one weekday");
+    }
+    rule.weekdays.forEach((weekday) => assertInRange(weekday, 0, 6, "Weekday"));
+    const weekdays = new Set(rule.weekdays);
+
+    return {
+      timeZone,
+      times,
+      matchesDay: (day: number) => weekdays.has(toDate(day).weekday),
+    };
+  }
+
+  const unknownRule: never = rule;
+  throw new Error(`Unknown calendar rule: ${JSON.stringify(unknownRule)}`);
+}
+
+/**
+ * Get the first time a compiled rule matches strictly after a given time
+ * @param compiled The compiled rule
+ * @param after Unix timestamp (seconds)
+ * @returns Unix timestamp (seconds)
+ */
+function nextMatch(compiled: CompiledRule, after: number): number {
+  const { timeZone, times, matchesDay } = compiled;
+  const localAfter = toLocalSeconds(after, timeZone);
+  const firstDay = Math.floor(localAfter / SECONDS_PER_DAY);
+
+  // Local times up to the start are in the past unless the UTC offset
+  // changes around it, so only convert those that might not be
+  const offset = localAfter - after;
+  const offsetSteady = [
+    after - MAX_OFFSET_CHANGE_SECONDS,
+    after + MAX_OFFSET_CHANGE_SECONDS,
+  ].every((time) => toLocalSeconds(time, timeZone) - time === offset);
+  const skipUntil = offsetSteady
+    ? localAfter
+    : localAfter - MAX_OFFSET_CHANGE_SECONDS;
+
+  for (let day = firstDay; day < firstDay + MAX_SEARCH_DAYS; day++) {
+    if (!matchesDay(day)) {
+      continue;
+    }
+    for (const [hour, minute] of times) {
+      const localSeconds = day * SECONDS_PER_DAY + hour * 3600 + minute * 60;
+      if (localSeconds <= skipUntil) {
+        continue;
+      }
+      const timestamp = fromLocalSeconds(localSeconds, timeZone);
+      if (timestamp > after) {
+        return timestamp;
+      }
+    }
+  }
+
+  throw new Error(
+    `Calendar rule has no occurrence within ${MAX_SEARCH_DAYS} days`
+  );
+}
+
+/**
+ * Get the shortest and longest time between occurrences of a compiled rule,
+ * widened by a daylight saving change either way
+ * @param compiled The compiled rule
+ * @param fromDay First day to look at (days since the Unix epoch)
+ */
+function periodOf(compiled: CompiledRule, fromDay: number): CalendarPeriod {
+  const { times, matchesDay } = compiled;
+  const seconds = times.map(([hour, minute]) => hour * 3600 + minute * 60);
+  const first = seconds[0];
+  const last = seconds[seconds.length - 1];
+
+  let minSeconds = Infinity;
+  let maxSeconds = 0;
+  for (let i = 1; i < seconds.length; i++) {
+    minSeconds = Math.min(minSeconds, seconds[i] - seconds[i - 1]);
+    maxSeconds = Math.max(maxSeconds, seconds[i] - seconds[i - 1]);
+  }
+
+  let previousDay: number | null = null;
+  for (let day = fromDay; day < fromDay + MAX_SEARCH_DAYS; day++) {
+    if (!matchesDay(day)) {
+      continue;
+    }
+    if (previousDay !== null) {
+      const gap = (day - previousDay) * SECONDS_PER_DAY - last + first;
+      minSeconds = Math.min(minSeconds, gap);
+      maxSeconds = Math.max(maxSeconds, gap);
+    }
+    previousDay = day;
+  }
+
+  if (maxSeconds === 0) {
+    throw new Error(
+      `Calendar rule does not repeat within ${MAX_SEARCH_DAYS} days`
+    );
+  }
+
+  return {
+    minSeconds: Math.max(1, minSeconds - MAX_OFFSET_CHANGE_SECONDS),
+    maxSeconds: maxSeconds + MAX_OFFSET_CHANGE_SECONDS,
+  };
+}
+
+/**
+ * Check that a calendar rule is valid
+ * @param rule The calendar rule
+ * @throws Error describing the first problem found
+ */
+export function validateCalendarRule(rule: CalendarRule): void {
+  compileRule(rule);
+}
+
+/**
+ * Encode a calendar rule as stored on chain
+ * @param rule The calendar rule
+ */
+export function serializeCalendarRule(rule: CalendarRule): string {
+  validateCalendarRule(rule);
+  return JSON.stringify(rule);
+}
+
+/**
+ * Decode a calendar rule as stored on chain
+ * @param text The stored rule
+ */
+export function parseCalendarRule(text: string): CalendarRule {
+  let rule: CalendarRule;
+  try {
+    rule = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`Invalid calendar rule: ${error.message}`);
+  }
+  if (typeof rule !== "object" || rule === null) {
+    throw new Error("Invalid calendar rule: not an object");
+  }
+
+  validateCalendarRule(rule);
+  return rule;
+}
+
+/**
+ * Works out when payments fall due, for interval and calendar schedules
+ * alike. The keeper uses it to pick the next due time of calendar payments,
+ * and forecasts use it to list upcoming payments.
+ */
+export class SchedulePlanner {
+  /**
+   * Get the first time a rule matches strictly after a given time
+   * @param rule The calendar rule
+   * @param after Unix timestamp (seconds)
+   * @returns Unix timestamp (seconds)
+   */
+  nextOccurrence(rule: CalendarRule, after: number): number {
+    return nextMatch(compileRule(rule), after);
+  }
+
+  /**
+   * List the times a rule matches within a window
+   * @param rule The calendar rule
+   * @param from Start of the window, inclusive (Unix timestamp, seconds)
+   * @param to End of the window, inclusive (Unix timestamp, seconds)
+   * @param maxOccurrences Stop after this many
+   */
+  occurrences(
+    rule: CalendarRule,
+    from: number,
+    to: number,
+    maxOccurrences: number = 10000
+  ): number[] {
+    const compiled = compileRule(rule);
+    const times: number[] = [];
+    let time = nextMatch(compiled, from - 1);
+    while (time <= to && times.length < maxOccurrences) {
+      times.push(time);
+      time = nextMatch(compiled, time);
+    }
+    return times;
+  }
+
+  /**
+   * Get the shortest and longest time between occurrences of a rule, which
+   * bound the next due times executors may set on chain
+   * @param rule The calendar rule
+   * @param from Look at occurrences from this time (Unix timestamp, seconds)
+   */
+  period(rule: CalendarRule, from: number): CalendarPeriod {
+    const compiled = compileRule(rule);
+    return periodOf(
+      compiled,
+      Math.floor(toLocalSeconds(from, compiled.timeZone) / SECONDS_PER_DAY)
+    );
+  }
+
+  /**
+   * List the times a scheduled payment falls due within a window, honoring
+   * its catch-up policy, remaining executions and end time. Overdue payments
+   * are listed as paid at the start of the window.
+   * @param payment The payment
+   * @param from Start of the window, inclusive (Unix timestamp, seconds)
+   * @param to End of the window, inclusive (Unix timestamp, seconds)
+   * @param maxOccurrences Stop after this many
+   */
+  paymentDueTimes(
+    payment: ScheduledPayment,
+    from: number,
+    to: number,
+    maxOccurrences: number = 10000
+  ): number[] {
+    if (!payment.isActive) {
+      return [];
+    }
+
+    const { calendarRule, intervalSeconds, catchUpPolicy } = payment;
+    const compiled = calendarRule ? compileRule(calendarRule) : null;
+    const following = (time: number): number | null => {
+      if (compiled) {
+        return nextMatch(compiled, time);
+      }
+      return intervalSeconds > 0 ? time + intervalSeconds : null;
+    };
+
+    const times: number[] = [];
+    let remaining = payment.remainingExecutions;
+    let scheduled: number | null = payment.nextPaymentTime;
+
+    while (
+      scheduled !== null &&
+      times.length < maxOccurrences &&
+      (remaining === null || remaining > 0) &&
+      (payment.endTime === null || scheduled <= payment.endTime)
+    ) {
+      const paidAt = Math.max(scheduled, from);
+      if (paidAt > to) {
+        break;
+      }
+
+      // Anchored payments step from their schedule, others from the payment
+      let next = following(catchUpPolicy === null ? paidAt : scheduled);
+      if (catchUpPolicy === "pay_once" || catchUpPolicy === "skip") {
+        while (next !== null && next <= paidAt) {
+          next = following(next);
+        }
+      }
+
+      times.push(paidAt);
+      if (remaining !== null) {
+        remaining--;
+      }
+      scheduled = next;
+    }
+
+    return times;
+  }
+}
@@ -0,0 +1,524 @@
+import { AccountAddress, parseTypeTag } from "@aptos-labs/ts-sdk";
+import { isFungibleAsset } from "./CoinRegistry";
+import {
+  ApprovalRequiredError,
+  PolicyViolation,
+  SpendingPolicyError,
+} from "./PayMasterErrors";
+import { MemoryStateStore, StateStore } from "./StateStore";
+
+/**
+ * Hours of the day during which nothing is signed, e.g. { start: 22, end: 6 }
+ * for overnight. end is exclusive and may wrap past midnight.
+ */
+export interface BlockedHours {
+  start: number; // 0-23
+  end: number; // 0-24
+  timeZone?: string; // IANA time zone (default: UTC)
+}
+
+/**
+ * Guardrails checked before the agent signs a transfer or payment schedule.
+ * Limits are in base units, keyed by coin type; coins without a limit are
+ * unlimited.
+ */
+export interface SpendingPolicy {
+  allowedCoinTypes?: string[]; // Omit to allow every coin
+  allowedRecipients?: string[]; // Omit to allow every recipient
+  maxSingleTransfer?: Record<string, string>; // Per transfer or scheduled payment
+  dailyLimitPerRecipient?: Record<string, string>; // Per recipient per UTC day
+  blockedHours?: BlockedHours[];
+  requireApproval?: boolean; // Over-limit amounts become approval requests instead of rejections
+  approvalTtlMs?: number; // How long an approval stays usable (default: 1 hour)
+}
+
+/**
+ * What a transaction would do with funds
+ */
+export interface SpendingIntent {
+  kind: "transfer" | "schedule"; // Funds moving now, or a payment set up for later
+  recipient: string;
+  amount: string; // Base units
+  coinType: string;
+}
+
+/**
+ * The outcome of checking an intent against the policy
+ */
+export interface SpendingDecision {
+  allowed: boolean;
+  violations: PolicyViolation[];
+  approvalRequired: boolean; // Every violation is a limit that an approval can lift
+}
+
+/**
+ * An over-limit intent waiting for a human decision
+ */
+export interface ApprovalRequest {
+  id: string;
+  intent: SpendingIntent;
+  violations: PolicyViolation[];
+  status: "pending" | "approved" | "rejected";
+  requestedAt: number; // ms
+  expiresAt: number; // ms
+}
+
+/**
+ * Funds spent today and open approval requests
+ */
+export interface SpendingLedger {
+  day: string; // UTC day the figures are for, e.g. "2025-01-31"
+  spent: Record<string, Record<string, string>>; // Base units, keyed by recipient then coin type
+  approvals: ApprovalRequest[];
+}
+
+/**
+ * A transfer held against the daily limits until it commits
+ */
+export interface SpendingReservation {
+  intent: SpendingIntent;
+  approvalId?: string; // Approved request it uses, consumed when it commits
+}
+
+export interface SpendingPolicyEngineConfig {
+  policy: SpendingPolicy;
+  store?: StateStore<SpendingLedger>; // Where the ledger is persisted
+  onApprovalRequest?: (request: ApprovalRequest) => void;
+}
+
+// Violations that an approval can lift
+const LIMIT_RULES: PolicyViolation["rule"][] = [
+  "max_single_transfer",
+  "daily_limit",
+];
+
+/**
+ * Get the current UTC day, e.g. "2025-01-31"
+ */
+function utcDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Normalize a coin type or metadata address so that equivalent forms match
+ * @param coinType A coin type or fungible asset metadata address
+ */
+function normalizeCoinType(coinType: string): string {
+  return isFungibleAsset(coinType)
+    ? AccountAddress.from(coinType).toString()
+    : parseTypeTag(coinType).toString();
+}
+
+/**
+ * Look up a per-coin limit, whatever form its coin type was written in
+ * @param limits Limits keyed by coin type
+ * @param coinType Normalized coin type
+ */
+function limitFor(
+  limits: Record<string, string> | undefined,
+  coinType: string
+): bigint | null {
+  for (const [limitCoinType, limit] of Object.entries(limits ?? {})) {
+    if (normalizeCoinType(limitCoinType) === coinType) {
+      return BigInt(limit);
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the hour of the day (0-23) in a time zone
+ * @param timestamp Time in ms
+ * @param timeZone IANA time zone
+ */
+function hourIn(timestamp: number, timeZone: string): number {
+  const hour = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    hourCycle: "h23",
+  }).format(new Date(timestamp));
+  return Number(hour);
+}
+
+/**
+ * Checks transfers and payment schedules against a spending policy before
+ * they are signed, and tracks what each recipient was paid today
+ */
+export class SpendingPolicyEngine {
+  private policy: SpendingPolicy;
+  private store: StateStore<SpendingLedger>;
+  private onApprovalRequest?: (request: ApprovalRequest) => void;
+  private ledger: SpendingLedger | null = null;
+  private reservations: SpendingReservation[] = [];
+  private heldApprovals = new Set<string>(); // IDs of approvals in use by a reservation
+
+  constructor(config: SpendingPolicyEngineConfig) {
+    this.policy = config.policy;
+    this.store = config.store ?? new MemoryStateStore();
+    this.onApprovalRequest = config.onApprovalRequest;
+  }
+
+  /**
+   * Check an intent against the policy without holding anything
+   * @param intent What the transaction would do
+   */
+  async evaluate(intent: SpendingIntent): Promise<SpendingDecision> {
+    const violations = await this.findViolations(this.normalize(intent));
+    return {
+      allowed: violations.length === 0,
+      violations,
+      approvalRequired:
+        violations.length > 0 &&
+        !!this.policy.requireApproval &&
+        violations.every((violation) => LIMIT_RULES.includes(violation.rule)),
+    };
+  }
+
+  /**
+   * Check an intent and hold a transfer against the daily limits. An
+   * approved request for the same intent lifts its limits once; it is held
+   * with the reservation and only used up when the transaction commits.
+   * @param intent What the transaction would do
+   * @throws ApprovalRequiredError if the intent needs approval first
+   * @throws SpendingPolicyError if the policy does not allow it
+   */
+  async reserve(intent: SpendingIntent): Promise<SpendingReservation> {
+    const normalized = this.normalize(intent);
+    const decision = await this.evaluate(normalized);
+
+    if (!decision.allowed) {
+      const message = decision.violations
+        .map((violation) => violation.message)
+        .join("; ");
+
+      if (!decision.approvalRequired) {
+        throw new SpendingPolicyError(message, decision.violations);
+      }
+
+      const ledger = await this.loadLedger();
+      const approved = this.findApproval(
+        ledger,
+        normalized,
+        "approved",
+        this.heldApprovals
+      );
+      if (approved) {
+        this.heldApprovals.add(approved.id);
+        return this.hold({ intent: normalized, approvalId: approved.id });
+      }
+
+      const request = await this.requestApproval(
+        normalized,
+        decision.violations
+      );
+      throw new ApprovalRequiredError(
+        `Approval required: ${message}`,
+        decision.violations,
+        request.id
+      );
+    }
+
+    return this.hold({ intent: normalized });
+  }
+
+  /**
+   * Drop a reservation whose transaction did not go through, leaving its
+   * approval usable
+   * @param reservation The reservation
+   */
+  release(reservation: SpendingReservation): void {
+    this.reservations = this.reservations.filter((r) => r !== reservation);
+    if (reservation.approvalId) {
+      this.heldApprovals.delete(reservation.approvalId);
+    }
+  }
+
+  /**
+   * Record a committed transfer against the recipient's daily limit and use
+   * up the approval it went ahead on
+   * @param reservation The reservation made for it
+   */
+  async settle(reservation: SpendingReservation): Promise<void> {
+    this.release(reservation);
+    if (reservation.approvalId) {
+      const ledger = await this.loadLedger();
+      ledger.approvals = ledger.approvals.filter(
+        (r) => r.id !== reservation.approvalId
+      );
+      await this.store.save(ledger);
+    }
+    await this.record(reservation.intent);
+  }
+
+  /**
+   * Record a committed transfer that has no reservation, e.g. one found to
+   * have committed after a restart
+   * @param intent What the transaction did
+   */
+  async record(intent: SpendingIntent): Promise<void> {
+    const { kind, recipient, coinType, amount } = this.normalize(intent);
+    if (kind !== "transfer") {
+      return;
+    }
+
+    const ledger = await this.loadLedger();
+    const spent = ledger.spent[recipient] ?? {};
+    spent[coinType] = (
+      BigInt(spent[coinType] ?? "0") + BigInt(amount)
+    ).toString();
+    ledger.spent[recipient] = spent;
+    await this.store.save(ledger);
+  }
+
+  /**
+   * List approval requests that are still open or approved but unused
+   */
+  async getApprovalRequests(): Promise<ApprovalRequest[]> {
+    return structuredClone((await this.loadLedger()).approvals);
+  }
+
+  /**
+   * Approve a request, so that repeating the call goes ahead once
+   * @param id The request ID from ApprovalRequiredError
+   */
+  async approve(id: string): Promise<ApprovalRequest> {
+    return this.decide(id, "approved");
+  }
+
+  /**
+   * Reject a request
+   * @param id The request ID from ApprovalRequiredError
+   */
+  async reject(id: string): Promise<ApprovalRequest> {
+    return this.decide(id, "rejected");
+  }
+
+  /**
+   * Get what was paid to a recipient today, in base units
+   * @param recipient The recipient address
+   * @param coinType The coin type
+   */
+  async getSpentToday(recipient: string, coinType: string): Promise<string> {
+    const ledger = await this.loadLedger();
+    return (
+      ledger.spent[AccountAddress.from(recipient).toString()]?.[
+        normalizeCoinType(coinType)
+      ] ?? "0"
+    );
+  }
+
+  /**
+   * Bring an intent's addresses and coin type into canonical form
+   */
+  private normalize(intent: SpendingIntent): SpendingIntent {
+    return {
+      ...intent,
+      recipient: AccountAddress.from(intent.recipient).toString(),
+      coinType: normalizeCoinType(intent.coinType),
+    };
+  }
+
+  /**
+   * Check a normalized intent against every rule
+   */
+  private async findViolations(
+    intent: SpendingIntent
+  ): Promise<PolicyViolation[]> {
+    const { allowedCoinTypes, allowedRecipients, blockedHours } = this.policy;
+    const violations: PolicyViolation[] = [];
+    const amount = BigInt(intent.amount);
+
+    if (
+      allowedCoinTypes &&
+      !allowedCoinTypes.some(
+        (coinType) => normalizeCoinType(coinType) === intent.coinType
+      )
+    ) {
+      violations.push({
+        rule: "coin_not_allowed",
+        message: `${intent.coinType} is not an allowed coin`,
+      });
+    }
+
+    if (
+      allowedRecipients &&
+      !allowedRecipients.some((recipient) =>
+        AccountAddress.from(recipient).equals(
+          AccountAddress.from(intent.recipient)
+        )
+      )
+    ) {
+      violations.push({
+        rule: "recipient_not_allowed",
+        message: `${intent.recipient} is not an allowed recipient`,
+      });
+    }
+
+    const now = Date.now();
+    for (const { start, end, timeZone } of blockedHours ?? []) {
+      const hour = hourIn(now, timeZone ?? "UTC");
+      const blocked =
+        start <= end
+          ? hour >= start && hour < end
+          : hour >= start || hour < end;
+      if (blocked) {
+        violations.push({
+          rule: "blocked_hours",
+          message: `Signing is blocked from ${start}:00 to ${end}:00 ${
+            timeZone ?? "UTC"
+          }`,
+        });
+        break;
+      }
+    }
+
+    const maxSingle = limitFor(this.policy.maxSingleTransfer, intent.coinType);
+    if (maxSingle !== null && amount > maxSingle) {
+      violations.push({
+        rule: "max_single_transfer",
+        message: `Amount ${amount} exceeds the single transfer limit of ${maxSingle}`,
+      });
+    }
+
+    // Schedules are checked per payment; transfers also count today's spend
+    const dailyLimit = limitFor(
+      this.policy.dailyLimitPerRecipient,
+      intent.coinType
+    );
+    if (dailyLimit !== null) {
+      let total = amount;
+      if (intent.kind === "transfer") {
+        const ledger = await this.loadLedger();
+        total += BigInt(
+          ledger.spent[intent.recipient]?.[intent.coinType] ?? "0"
+        );
+        for (const reservation of this.reservations) {
+          if (
+            reservation.intent.recipient === intent.recipient &&
+            reservation.intent.coinType === intent.coinType
+          ) {
+            total += BigInt(reservation.intent.amount);
+          }
+        }
+      }
+
+      if (total > dailyLimit) {
+        violations.push({
+          rule: "daily_limit",
+          message: `Paying ${amount} would take ${intent.recipient} to ${total} today, over the daily limit of ${dailyLimit}`,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Hold a reservation; transfers count against the daily limits until
+   * released or settled
+   */
+  private hold(reservation: SpendingReservation): SpendingReservation {
+    if (reservation.intent.kind === "transfer") {
+      this.reservations.push(reservation);
+    }
+    return reservation;
+  }
+
+  /**
+   * Find an unexpired request for the same intent
+   */
+  private findApproval(
+    ledger: SpendingLedger,
+    intent: SpendingIntent,
+    status: ApprovalRequest["status"],
+    excluded: Set<string> = new Set()
+  ): ApprovalRequest | undefined {
+    return ledger.approvals.find(
+      (request) =>
+        request.status === status &&
+        !excluded.has(request.id) &&
+        request.expiresAt > Date.now() &&
+        request.intent.kind === intent.kind &&
+        request.intent.recipient === intent.recipient &&
+        request.intent.coinType === intent.coinType &&
+        request.intent.amount === intent.amount
+    );
+  }
+
+  /**
+   * Open an approval request, or return the pending one for the same intent
+   */
+  private async requestApproval(
+    intent: SpendingIntent,
+    violations: PolicyViolation[]
+  ): Promise<ApprovalRequest> {
+    const ledger = await this.loadLedger();
+    const pending = this.findApproval(ledger, intent, "pending");
+    if (pending) {
+      return pending;
+    }
+
+    const now = Date.now();
+    const request: ApprovalRequest = {
+      id: crypto.randomUUID(),
+      intent,
+      violations,
+      status: "pending",
+      requestedAt: now,
+      expiresAt: now + (this.policy.approvalTtlMs ?? 60 * 60 * 1000),
+    };
+    ledger.approvals.push(request);
+    await this.store.save(ledger);
+
+    this.onApprovalRequest?.(structuredClone(request));
+    return request;
+  }
+
+  /**
+   * Record a decision on a pending request
+   */
+  private async decide(
+    id: string,
+    status: "approved" | "rejected"
+  ): Promise<ApprovalRequest> {
+    const ledger = await this.loadLedger();
+    const request = ledger.approvals.find((r) => r.id === id);
+    if (!request || request.status !== "pending") {
+      throw new Error(`No pending approval request ${id}`);
+    }
+
+    request.status = status;
+    if (status === "rejected") {
+      ledger.approvals = ledger.approvals.filter((r) => r !== request);
+    }
+    await this.store.save(ledger);
+    return structuredClone(request);
+  }
+
+  /**
+   * Load the ledger, starting a new day's figures when the day has changed
+   * and dropping expired requests
+   */
+  private async loadLedger(): Promise<SpendingLedger> {
+    if (!this.ledger) {
+      this.ledger = (await this.store.load()) ?? {
+        day: utcDay(),
+        spent: {},
+        approvals: [],
+      };
+    }
+
+    const today = utcDay();
+    if (this.ledger.day !== today) {
+      this.ledger.day = today;
+      this.ledger.spent = {};
+    }
+
+    const now = Date.now();
+    this.ledger.approvals = this.ledger.approvals.filter(
+      (request) => request.expiresAt > now
+    );
+
+    return this.ledger;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Persists a piece of JSON-serializable state between runs
+ */
+export interface StateStore<T> {
+  load(): Promise<T | null>;
+  save(state: T): Promise<void>;
+}
+
+/**
+ * Keeps state in memory only, e.g. for tests or the browser dashboard
+ */
+export class MemoryStateStore<T> implements StateStore<T> {
+  private state: T | null = null;
+
+  async load(): Promise<T | null> {
+    return this.state === null ? null : structuredClone(this.state);
+  }
+
+  async save(state: T): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
+
+/**
+ * Keeps state in a JSON file (Node.js only)
+ */
+export class FileStateStore<T> implements StateStore<T> {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<T | null> {
+    // Imported lazily so that browser bundles never pull in Node modules
+    const { readFile } = await import("fs/promises");
+
+    try {
+      return JSON.parse(await readFile(this.path, "utf8")) as T;
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return null; // Nothing saved yet
+      }
+      throw new Error(
+        `Failed to load state from ${this.path}: ${error.message}`
+      );
+    }
+  }
+
+  async save(state: T): Promise<void> {
+    const { rename, writeFile } = await import("fs/promises");
+
+    // Write to a temporary file first so a crash never leaves half a file
+    const tempPath = `${this.path}.tmp`;
+    await writeFile(tempPath, JSON.stringify(state, null, 2), "utf8");
+    await rename(tempPath, this.path);
+  }
+}
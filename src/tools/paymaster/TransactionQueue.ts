@@ -0,0 +1,212 @@
+import {
+  AccountAddress,
+  Aptos,
+  DEFAULT_TXN_TIMEOUT_SEC,
+  InputEntryFunctionData,
+  UserTransactionResponse,
+} from "@aptos-labs/ts-sdk";
+
+/**
+ * Builds, signs and submits a transaction with a given sequence number
+ * @returns The transaction hash
+ */
+export type TransactionSubmitter = (
+  data: InputEntryFunctionData,
+  accountSequenceNumber: bigint
+) => Promise<string>;
+
+export interface TransactionQueueConfig {
+  maxConcurrency?: number; // Transactions submitted but not yet committed (default: 8)
+}
+
+/**
+ * A snapshot of the queue
+ */
+export interface TransactionQueueStats {
+  depth: number; // Waiting to be submitted
+  inFlight: number; // Submitted, waiting to commit
+  nextSequenceNumber: string | null; // null until the next resync
+  committed: number;
+  failed: number; // Rejected on submission or lost while waiting
+}
+
+interface QueuedTransaction {
+  data: InputEntryFunctionData;
+  timeoutSecs: number;
+  resolve: (transaction: UserTransactionResponse) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Submits transactions for one account with locally assigned sequence
+ * numbers, so that concurrent submissions never collide.
+ * Submission is serialized; waiting for commits runs in parallel up to
+ * maxConcurrency.
+ */
+export class TransactionQueue {
+  private client: Aptos;
+  private accountAddress: AccountAddress;
+  private submitter: TransactionSubmitter;
+  private maxConcurrency: number;
+  private pending: QueuedTransaction[] = [];
+  private inFlight = 0;
+  private submitting = false;
+  private nextSequenceNumber: bigint | null = null;
+  private resyncs = 0; // Bumped whenever a resync is requested
+  private committed = 0;
+  private failed = 0;
+
+  constructor(
+    client: Aptos,
+    accountAddress: AccountAddress,
+    submitter: TransactionSubmitter,
+    config: TransactionQueueConfig = {}
+  ) {
+    this.client = client;
+    this.accountAddress = accountAddress;
+    this.submitter = submitter;
+    this.maxConcurrency = config.maxConcurrency ?? 8;
+  }
+
+  /**
+   * Queue a transaction and wait for it to commit
+   * @param data The entry function payload
+   * @param timeoutSecs How long to wait for the commit once submitted
+   * @returns The committed transaction, whether it succeeded or aborted
+   */
+  submit(
+    data: InputEntryFunctionData,
+    timeoutSecs: number = DEFAULT_TXN_TIMEOUT_SEC
+  ): Promise<UserTransactionResponse> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ data, timeoutSecs, resolve, reject });
+      void this.pump();
+    });
+  }
+
+  /**
+   * Get the queue depth, in-flight count and counters
+   */
+  getStats(): TransactionQueueStats {
+    return {
+      depth: this.pending.length,
+      inFlight: this.inFlight,
+      nextSequenceNumber:
+        this.nextSequenceNumber === null
+          ? null
+          : this.nextSequenceNumber.toString(),
+      committed: this.committed,
+      failed: this.failed,
+    };
+  }
+
+  /**
+   * Reload the next sequence number from chain.
+   * Only safe while nothing is in flight; the queue calls this itself after
+   * a failure once the in-flight transactions have settled.
+   */
+  async resync(): Promise<void> {
+    const { sequence_number } = await this.client.getAccountInfo({
+      accountAddress: this.accountAddress,
+    });
+    this.nextSequenceNumber = BigInt(sequence_number);
+  }
+
+  /**
+   * Submit queued transactions while there is room in flight
+   */
+  private async pump(): Promise<void> {
+    if (this.submitting) {
+      return; // The running loop picks up new transactions
+    }
+    this.submitting = true;
+
+    try {
+      while (this.pending.length > 0 && this.inFlight < this.maxConcurrency) {
+        if (this.nextSequenceNumber === null) {
+          // Reading the chain while transactions are in flight would hand
+          // out their sequence numbers again
+          if (this.inFlight > 0) {
+            break;
+          }
+
+          try {
+            await this.resync();
+          } catch (error: any) {
+            this.failed++;
+            this.pending
+              .shift()
+              ?.reject(
+                new Error(`Failed to resync sequence number: ${error.message}`)
+              );
+            continue;
+          }
+        }
+
+        const queued = this.pending.shift()!;
+        const sequenceNumber = this.nextSequenceNumber!;
+        const resyncs = this.resyncs;
+
+        let hash: string;
+        try {
+          hash = await this.submitter(queued.data, sequenceNumber);
+        } catch (error: any) {
+          // The sequence number may or may not be stale, so ask the chain
+          this.requestResync();
+          this.failed++;
+          queued.reject(error);
+          continue;
+        }
+
+        // An earlier transaction may have been lost while this one was
+        // submitted; its resync must not be overwritten
+        if (this.resyncs === resyncs) {
+          this.nextSequenceNumber = sequenceNumber + BigInt(1);
+        }
+        this.inFlight++;
+        void this.awaitCommit(queued, hash);
+      }
+    } finally {
+      this.submitting = false;
+    }
+  }
+
+  /**
+   * Reload the sequence number from chain before the next submission, once
+   * nothing is in flight
+   */
+  private requestResync(): void {
+    this.nextSequenceNumber = null;
+    this.resyncs++;
+  }
+
+  /**
+   * Wait for a submitted transaction, then make room for the next one
+   * @param queued The queued transaction
+   * @param hash Its hash
+   */
+  private async awaitCommit(
+    queued: QueuedTransaction,
+    hash: string
+  ): Promise<void> {
+    try {
+      const committedTransaction = await this.client.waitForTransaction({
+        transactionHash: hash,
+        options: {
+          timeoutSecs: queued.timeoutSecs,
+          checkSuccess: false, // Failed transactions are reported, not thrown
+        },
+      });
+      this.committed++;
+      queued.resolve(committedTransaction as UserTransactionResponse);
+    } catch (error: any) {
+      // A lost transaction leaves a gap that later sequence numbers wait on
+      this.requestResync();
+      this.failed++;
+      queued.reject(error);
+    } finally {
+      this.inFlight--;
+      void this.pump();
+    }
+  }
+}